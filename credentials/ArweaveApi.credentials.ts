@@ -6,12 +6,128 @@ export class ArweaveApi implements ICredentialType {
 	documentationUrl = 'https://docs.arweave.org/developers/';
 	properties: INodeProperties[] = [
 		{
-			displayName: 'API Base URL',
+			displayName: 'Access',
+			name: 'access',
+			type: 'options',
+			options: [
+				{
+					name: 'Signing',
+					value: 'signing',
+					description: 'Read from the gateway and sign transactions with a wallet',
+				},
+				{
+					name: 'Read Only',
+					value: 'readOnly',
+					description: 'Only read from the gateway. Operations that sign will fail.',
+				},
+			],
+			default: 'signing',
+			description: 'Whether this credential holds wallet keys. Use a read-only credential for nodes that never sign.',
+		},
+		{
+			displayName: 'Gateway URL',
 			name: 'baseUrl',
 			type: 'string',
 			default: 'https://arweave.net',
 			required: true,
-			description: 'The base URL for the Arweave gateway',
+			description: 'The base URL of the Arweave gateway',
+		},
+		{
+			displayName: 'Fallback Gateways',
+			name: 'fallbackGateways',
+			type: 'string',
+			default: '',
+			required: false,
+			placeholder: 'https://ar-io.dev, https://g8way.io',
+			description: 'Comma-separated gateways tried in order when the gateway fails with a network error, 5xx, 429 or a 404 for recently posted data',
+		},
+		{
+			displayName: 'Gateway Mode',
+			name: 'gatewayMode',
+			type: 'options',
+			options: [
+				{
+					name: 'Failover',
+					value: 'failover',
+					description: 'Send each request to one gateway at a time, healthy gateways first',
+				},
+				{
+					name: 'Race Reads',
+					value: 'race',
+					description: 'Send reads to every gateway at once and use the first valid response. Writes still fail over.',
+				},
+			],
+			default: 'failover',
+			description: 'How requests are spread over the gateway and its fallbacks',
+		},
+		{
+			displayName: 'GraphQL Endpoint',
+			name: 'graphqlEndpoint',
+			type: 'string',
+			default: '',
+			required: false,
+			description: 'GraphQL endpoint to query. Leave empty to use /graphql on the gateway.',
+		},
+		{
+			displayName: 'GraphQL Dialect',
+			name: 'graphqlDialect',
+			type: 'options',
+			options: [
+				{
+					name: 'Auto-Detect',
+					value: 'auto',
+					description: 'Read the schema of the endpoint to find out what it supports',
+				},
+				{
+					name: 'Arweave.net',
+					value: 'arweave',
+					description: 'The original Arweave GraphQL schema',
+				},
+				{
+					name: 'Goldsky',
+					value: 'goldsky',
+					description: 'Adds block timestamp filters; pending transactions are not returned',
+				},
+				{
+					name: 'Ar.io',
+					value: 'ario',
+					description: 'Adds tag match modes and ingested_at filters',
+				},
+			],
+			default: 'auto',
+			description: 'Schema flavour of the GraphQL endpoint, which decides the filters queries can use',
+		},
+		{
+			displayName: 'Network',
+			name: 'network',
+			type: 'options',
+			options: [
+				{ name: 'Mainnet', value: 'mainnet' },
+				{ name: 'Testnet', value: 'testnet' },
+			],
+			default: 'mainnet',
+			description: 'Network the gateway is expected to serve. The credential test checks it against the gateway.',
+		},
+		{
+			displayName: 'Timeout (Ms)',
+			name: 'timeout',
+			type: 'number',
+			typeOptions: {
+				minValue: 1000,
+			},
+			default: 60000,
+			description: 'How long to wait for gateway and bundler responses',
+		},
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: false,
+			description: 'Sent as a Bearer token to gateways that require one. Optional.',
 		},
 		{
 			displayName: 'Wallet JWK',
@@ -22,7 +138,67 @@ export class ArweaveApi implements ICredentialType {
 			},
 			default: '{}',
 			required: false,
-			description: 'Arweave wallet in JWK (JSON Web Key) format. Required for write operations like data uploads and contract interactions. Leave empty for read-only operations.',
+			displayOptions: {
+				show: {
+					access: ['signing'],
+				},
+			},
+			description: 'Arweave wallet in JWK (JSON Web Key) format. Required for write operations like data uploads and contract interactions. The credential test shows the derived wallet address.',
+		},
+		{
+			displayName: 'Bundler Provider',
+			name: 'bundlerProvider',
+			type: 'options',
+			options: [
+				{ name: 'Irys', value: 'irys' },
+				{ name: 'Turbo', value: 'turbo' },
+				{ name: 'ar.io', value: 'ario' },
+			],
+			default: 'irys',
+			description: 'Bundler service used for data item uploads',
+		},
+		{
+			displayName: 'Bundler Endpoint',
+			name: 'bundlrEndpoint',
+			type: 'string',
+			default: '',
+			required: false,
+			description: 'Upload URL of the bundler service. Leave empty to use the provider default (required for ar.io).',
+		},
+		{
+			displayName: 'Ethereum Private Key',
+			name: 'ethereumPrivateKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: false,
+			displayOptions: {
+				show: {
+					access: ['signing'],
+				},
+			},
+			description: 'Hex-encoded secp256k1 private key used to sign ANS-104 data items owned by an Ethereum address. Optional.',
+		},
+		{
+			displayName: 'Solana Secret Key',
+			name: 'solanaSecretKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: false,
+			displayOptions: {
+				show: {
+					access: ['signing'],
+				},
+			},
+			description: 'Solana ed25519 secret key (Base58 or solana-keygen JSON byte array) used to sign ANS-104 data items owned by a Solana address. Optional.',
 		},
 	];
-}
\ No newline at end of file
+
+	// No test request here: it would take precedence over the arweaveApiTest method of the
+	// nodes, which checks the network, the API key and the wallet
+}
@@ -6,15 +6,48 @@
  */
 
 import type {
+  IDataObject,
   IPollFunctions,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
 } from 'n8n-workflow';
+import type { NodeApiError } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import type { ArweaveJWK, GraphQLTransactionsResponse } from './types';
-import { GRAPHQL_QUERIES, VELOCITY_BPA_LICENSE_NOTICE } from './constants';
-import { parseJwk, deriveAddressFromJwk, decodeBase64Url, encodeBase64Url } from './utils/helpers';
+import type {
+  ArweaveBlock,
+  ArweaveJWK,
+  ArweaveTransactionStatus,
+  GraphQLEdge,
+  GraphQLTransactionsResponse,
+  HeldTransaction,
+  RecentBlock,
+} from './types';
+import { ARWEAVE_CONSTANTS, GRAPHQL_QUERIES, VELOCITY_BPA_LICENSE_NOTICE } from './constants';
+import {
+  getAuthHeaders,
+  getTransactionStatus,
+  normalizeCredentials,
+} from './transport/arweaveClient';
+import {
+  gatewayRequest,
+  getGatewayUrls,
+  getGraphqlUrls,
+  getServedGateway,
+} from './transport/gateways';
+import {
+  parseJwk,
+  deriveAddressFromJwk,
+  decodeBase64Url,
+  encodeBase64Url,
+  isValidTransactionId,
+} from './utils/helpers';
+import {
+  findOrphanedBlocks,
+  releaseConfirmed,
+  selectUnseen,
+  toBlockItem,
+} from './utils/trigger';
 
 // License notice logged once per node load
 let licenseNoticeLogged = false;
@@ -26,6 +59,20 @@ function logLicenseNotice(): void {
   }
 }
 
+// Current blocks of transactions held for confirmations
+const HELD_BLOCKS_QUERY = `
+  query GetHeldBlocks($ids: [ID!], $first: Int) {
+    transactions(ids: $ids, first: $first) {
+      edges {
+        node {
+          id
+          block { height timestamp }
+        }
+      }
+    }
+  }
+`;
+
 export class ArweaveTrigger implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Arweave Trigger',
@@ -66,7 +113,7 @@ export class ArweaveTrigger implements INodeType {
           {
             name: 'Block Mined',
             value: 'blockMined',
-            description: 'Trigger when a new block is produced',
+            description: 'Trigger when a new block is produced or a fork orphans one',
           },
           {
             name: 'Large Upload Detected',
@@ -78,6 +125,11 @@ export class ArweaveTrigger implements INodeType {
             value: 'contractStateChanged',
             description: 'Trigger when a SmartWeave contract has new interactions',
           },
+          {
+            name: 'Transaction Confirmed or Dropped',
+            value: 'transactionStatus',
+            description: 'Trigger when a watched transaction is confirmed or dropped',
+          },
         ],
         default: 'newTransactionByTag',
       },
@@ -159,13 +211,93 @@ export class ArweaveTrigger implements INodeType {
         },
         description: 'SmartWeave contract ID to monitor',
       },
+      // Confirmation depth
+      {
+        displayName: 'Minimum Confirmations',
+        name: 'minConfirmations',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+        },
+        default: 0,
+        description: `Blocks mined on top of a transaction or block before it triggers, so forks cannot undo it. Transactions are held until then, or emitted as dropped when still unmined after ${ARWEAVE_CONSTANTS.ANCHOR_DEPTH} blocks. 0 also triggers on pending transactions. ${ARWEAVE_CONSTANTS.CONFIRMATIONS.LOW}, ${ARWEAVE_CONSTANTS.CONFIRMATIONS.MEDIUM} and ${ARWEAVE_CONSTANTS.CONFIRMATIONS.HIGH} give low, medium and high confidence.`,
+      },
+      // Watch list
+      {
+        displayName: 'Watch List Source',
+        name: 'watchSource',
+        type: 'options',
+        options: [
+          {
+            name: 'Transaction IDs',
+            value: 'list',
+            description: 'Watch the transaction IDs entered here',
+          },
+          {
+            name: 'Workflow Static Data',
+            value: 'staticData',
+            description: 'Watch transaction IDs that workflows add to the global static data',
+          },
+        ],
+        default: 'list',
+        displayOptions: {
+          show: {
+            triggerType: ['transactionStatus'],
+          },
+        },
+      },
+      {
+        displayName: 'Transaction IDs',
+        name: 'transactionIds',
+        type: 'string',
+        default: '',
+        required: true,
+        displayOptions: {
+          show: {
+            triggerType: ['transactionStatus'],
+            watchSource: ['list'],
+          },
+        },
+        description: 'Comma-separated transaction IDs to watch',
+      },
+      {
+        displayName: 'Static Data Key',
+        name: 'watchListKey',
+        type: 'string',
+        default: 'arweaveWatchList',
+        displayOptions: {
+          show: {
+            triggerType: ['transactionStatus'],
+            watchSource: ['staticData'],
+          },
+        },
+        description:
+          "Key of the global static data holding an array of transaction IDs, e.g. filled in a Code node through $getWorkflowStaticData('global'). Resolved and malformed IDs are removed from it.",
+      },
+      {
+        displayName: 'Drop After (Blocks)',
+        name: 'dropAfterBlocks',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        default: ARWEAVE_CONSTANTS.ANCHOR_DEPTH,
+        displayOptions: {
+          show: {
+            triggerType: ['transactionStatus'],
+          },
+        },
+        description:
+          'Blocks after which a watched transaction that is neither pending nor mined counts as dropped',
+      },
       // Limit
       {
         displayName: 'Max Results per Poll',
         name: 'limit',
         type: 'number',
         default: 10,
-        description: 'Maximum number of items to return per poll',
+        description:
+          'Transactions requested per page; more pages are read when more new transactions arrived since the last poll. For Block Mined, the most blocks reported per poll.',
       },
     ],
   };
@@ -175,24 +307,89 @@ export class ArweaveTrigger implements INodeType {
     
     const triggerType = this.getNodeParameter('triggerType') as string;
     const limit = this.getNodeParameter('limit', 10) as number;
+    const minConfirmations = this.getNodeParameter('minConfirmations', 0) as number;
+    // Block Mined and the watch list apply the depth themselves
+    const holding =
+      minConfirmations > 0 && !['blockMined', 'transactionStatus'].includes(triggerType);
     const webhookData = this.getWorkflowStaticData('node');
-    const credentials = await this.getCredentials('arweaveApi');
+    const credentials = normalizeCredentials(await this.getCredentials('arweaveApi'));
     
-    const gatewayUrl = (credentials.gatewayUrl as string) || 'https://arweave.net';
-    const graphqlUrl = (credentials.graphqlEndpoint as string) || `${gatewayUrl}/graphql`;
-    const timeout = (credentials.timeout as number) || 30000;
+    const gatewayUrls = getGatewayUrls(credentials);
+    const graphqlUrls = getGraphqlUrls(credentials);
+    const readPolicy = { read: true, race: credentials.gatewayMode === 'race' };
+    const timeout = credentials.timeout;
+    const authHeaders = getAuthHeaders(credentials);
     
     // Parse JWK for wallet address
     let walletAddress = '';
-    if (credentials.walletJwk) {
+    if (credentials.access !== 'readOnly' && credentials.walletJwk) {
       try {
-        const jwk = parseJwk(credentials.walletJwk as string);
+        const jwk = parseJwk(credentials.walletJwk);
         walletAddress = deriveAddressFromJwk(jwk);
       } catch {
         // Wallet not available
       }
     }
     
+    const markSeen = (ids: string[]) => {
+      webhookData.seenIds = [...((webhookData.seenIds ?? []) as string[]), ...ids].slice(
+        -ARWEAVE_CONSTANTS.TRIGGER_SEEN_IDS,
+      );
+    };
+
+    // Reads newest-first pages down to the height watermark, returning unseen transactions
+    const pollNewTransactions = async (query: string, variables: IDataObject) => {
+      const watermark = webhookData.watermark as number | undefined;
+      const seen = new Set((webhookData.seenIds ?? []) as string[]);
+      const floor =
+        watermark === undefined ? undefined : watermark - ARWEAVE_CONSTANTS.TRIGGER_LOOKBACK;
+      let fresh: GraphQLEdge[] = [];
+      let after: string | undefined;
+
+      for (let page = 0; page < ARWEAVE_CONSTANTS.TRIGGER_MAX_PAGES; page++) {
+        const response = (await gatewayRequest(
+          this,
+          graphqlUrls,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders },
+            body: { query, variables: { ...variables, first: limit, after } },
+            timeout,
+          },
+          readPolicy,
+        )) as { data: GraphQLTransactionsResponse };
+        const { edges, pageInfo } = response.data.transactions;
+        const { unseen, reachedFloor } = selectUnseen(edges, seen, floor);
+        fresh.push(...unseen);
+
+        // The first poll only takes the newest page
+        if (watermark === undefined || reachedFloor || !pageInfo?.hasNextPage || !edges.length) {
+          break;
+        }
+        after = edges[edges.length - 1].cursor;
+      }
+
+      // Triggers saved before the watermark stopped at the last transaction they emitted
+      const lastProcessedId = webhookData.lastProcessedId as string | undefined;
+      if (watermark === undefined && lastProcessedId) {
+        const index = fresh.findIndex((edge) => edge.node.id === lastProcessedId);
+        fresh = index === -1 ? fresh : fresh.slice(0, index);
+        delete webhookData.lastProcessedId;
+      }
+
+      const heights = fresh
+        .map((edge) => edge.node.block?.height)
+        .filter((height): height is number => height !== undefined);
+      if (heights.length > 0) {
+        webhookData.watermark = Math.max(watermark ?? 0, ...heights);
+      }
+      // Held transactions only count as seen once they are released, so later polls see them again
+      if (!holding) {
+        markSeen(fresh.map((edge) => edge.node.id));
+      }
+      return fresh;
+    };
+    
     const returnData: INodeExecutionData[] = [];
     
     try {
@@ -214,6 +411,7 @@ export class ArweaveTrigger implements INodeType {
           const query = `
             query GetTransactionsByTag($tags: [TagFilter!]!, $first: Int, $after: String) {
               transactions(first: $first, after: $after, tags: $tags, sort: HEIGHT_DESC) {
+                pageInfo { hasNextPage }
                 edges {
                   cursor
                   node {
@@ -228,22 +426,9 @@ export class ArweaveTrigger implements INodeType {
             }
           `;
           
-          const response = await this.helpers.httpRequest({
-            method: 'POST',
-            url: graphqlUrl,
-            headers: { 'Content-Type': 'application/json' },
-            body: { query, variables: { tags, first: limit } },
-            timeout,
-          }) as { data: GraphQLTransactionsResponse };
-          
-          const lastProcessedId = webhookData.lastProcessedId as string | undefined;
-          const transactions = response.data.transactions.edges;
+          const transactions = await pollNewTransactions(query, { tags });
           
           for (const edge of transactions) {
-            if (lastProcessedId && edge.node.id === lastProcessedId) {
-              break;
-            }
-            
             const decodedTags = edge.node.tags.map((t) => ({
               name: decodeBase64Url(t.name),
               value: decodeBase64Url(t.value),
@@ -259,10 +444,6 @@ export class ArweaveTrigger implements INodeType {
               },
             });
           }
-          
-          if (transactions.length > 0) {
-            webhookData.lastProcessedId = transactions[0].node.id;
-          }
           break;
         }
 
@@ -277,8 +458,9 @@ export class ArweaveTrigger implements INodeType {
           }
           
           const query = `
-            query GetTransactionsByOwner($owners: [String!]!, $first: Int) {
-              transactions(first: $first, owners: $owners, sort: HEIGHT_DESC) {
+            query GetTransactionsByOwner($owners: [String!]!, $first: Int, $after: String) {
+              transactions(first: $first, after: $after, owners: $owners, sort: HEIGHT_DESC) {
+                pageInfo { hasNextPage }
                 edges {
                   cursor
                   node {
@@ -295,22 +477,9 @@ export class ArweaveTrigger implements INodeType {
             }
           `;
           
-          const response = await this.helpers.httpRequest({
-            method: 'POST',
-            url: graphqlUrl,
-            headers: { 'Content-Type': 'application/json' },
-            body: { query, variables: { owners: [ownerAddress], first: limit } },
-            timeout,
-          }) as { data: GraphQLTransactionsResponse };
-          
-          const lastProcessedId = webhookData.lastProcessedId as string | undefined;
-          const transactions = response.data.transactions.edges;
+          const transactions = await pollNewTransactions(query, { owners: [ownerAddress] });
           
           for (const edge of transactions) {
-            if (lastProcessedId && edge.node.id === lastProcessedId) {
-              break;
-            }
-            
             const decodedTags = edge.node.tags.map((t) => ({
               name: decodeBase64Url(t.name),
               value: decodeBase64Url(t.value),
@@ -328,56 +497,80 @@ export class ArweaveTrigger implements INodeType {
               },
             });
           }
-          
-          if (transactions.length > 0) {
-            webhookData.lastProcessedId = transactions[0].node.id;
-          }
           break;
         }
 
         case 'blockMined': {
-          const response = await this.helpers.httpRequest({
+          const response = await gatewayRequest(this, gatewayUrls, {
             method: 'GET',
-            url: `${gatewayUrl}/info`,
+            path: '/info',
+            headers: authHeaders,
             timeout,
-          }) as { height: number; current: string };
+          }, readPolicy) as { height: number; current: string };
           
           const lastHeight = webhookData.lastHeight as number | undefined;
-          const currentHeight = response.height;
+          // Only blocks with enough confirmations count as mined
+          const currentHeight = response.height - Math.max(minConfirmations - 1, 0);
           
-          if (lastHeight === undefined || currentHeight > lastHeight) {
-            // Get block info
-            const blockResponse = await this.helpers.httpRequest({
+          const recentBlocks = (webhookData.recentBlocks ?? []) as RecentBlock[];
+          const fetchBlock = async (height: number) =>
+            (await gatewayRequest(this, gatewayUrls, {
               method: 'GET',
-              url: `${gatewayUrl}/block/hash/${response.current}`,
+              path: `/block/height/${height}`,
+              headers: authHeaders,
               timeout,
-            }) as { height: number; indep_hash: string; timestamp: number; txs: string[]; block_size: number };
-            
-            if (lastHeight === undefined) {
-              // First run - just store the height
-              webhookData.lastHeight = currentHeight;
-            } else {
-              // Return new blocks
-              for (let h = lastHeight + 1; h <= Math.min(currentHeight, lastHeight + limit); h++) {
-                const blockInfo = await this.helpers.httpRequest({
-                  method: 'GET',
-                  url: `${gatewayUrl}/block/height/${h}`,
-                  timeout,
-                }) as { height: number; indep_hash: string; timestamp: number; txs: string[]; block_size: number };
-                
-                returnData.push({
-                  json: {
-                    height: blockInfo.height,
-                    hash: blockInfo.indep_hash,
-                    timestamp: blockInfo.timestamp,
-                    timestampDate: new Date(blockInfo.timestamp * 1000).toISOString(),
-                    transactionCount: blockInfo.txs?.length || 0,
-                    blockSize: blockInfo.block_size,
-                  },
-                });
-              }
-              webhookData.lastHeight = currentHeight;
+            }, readPolicy)) as ArweaveBlock;
+          
+          if (lastHeight === undefined) {
+            // First run - just remember the current block
+            const block = await fetchBlock(currentHeight);
+            webhookData.lastHeight = currentHeight;
+            webhookData.recentBlocks = [{ height: block.height, hash: block.indep_hash }];
+            break;
+          }
+          
+          const newBlocks: ArweaveBlock[] = [];
+          for (let h = lastHeight + 1; h <= Math.min(currentHeight, lastHeight + limit); h++) {
+            newBlocks.push(await fetchBlock(h));
+          }
+          
+          // The chain forked if it no longer builds on the newest remembered block
+          const newest = recentBlocks[recentBlocks.length - 1];
+          let forked = false;
+          if (newest && newBlocks.length > 0) {
+            forked = newBlocks[0].previous_block !== newest.hash;
+          } else if (newest && newest.height <= currentHeight) {
+            forked = (await fetchBlock(newest.height)).indep_hash !== newest.hash;
+          }
+          
+          let chain = recentBlocks;
+          if (forked) {
+            const { orphaned, replacements } = await findOrphanedBlocks(recentBlocks, fetchBlock);
+            for (const [index, block] of orphaned.entries()) {
+              returnData.push({
+                json: {
+                  event: 'blockOrphaned',
+                  height: block.height,
+                  hash: block.hash,
+                  replacedBy: replacements[index]?.indep_hash,
+                },
+              });
             }
+            returnData.push(...replacements.map((block) => ({ json: toBlockItem(block) })));
+            chain = [
+              ...recentBlocks.slice(0, recentBlocks.length - orphaned.length),
+              ...replacements.map((block) => ({ height: block.height, hash: block.indep_hash })),
+            ];
+          }
+          
+          returnData.push(...newBlocks.map((block) => ({ json: toBlockItem(block) })));
+          webhookData.recentBlocks = [
+            ...chain,
+            ...newBlocks.map((block) => ({ height: block.height, hash: block.indep_hash })),
+          ].slice(-ARWEAVE_CONSTANTS.REORG_WINDOW);
+          // Blocks beyond the limit are picked up by the next poll, keeping the chain contiguous
+          if (newBlocks.length > 0) {
+            webhookData.lastHeight = newBlocks[newBlocks.length - 1].height;
           }
           break;
         }
@@ -386,9 +579,11 @@ export class ArweaveTrigger implements INodeType {
           const sizeThreshold = this.getNodeParameter('sizeThreshold', 10485760) as number;
           
           const query = `
-            query GetLargeUploads($minSize: Int!, $first: Int) {
-              transactions(first: $first, sort: HEIGHT_DESC) {
+            query GetLargeUploads($minSize: Int!, $first: Int, $after: String) {
+              transactions(first: $first, after: $after, sort: HEIGHT_DESC) {
+                pageInfo { hasNextPage }
                 edges {
+                  cursor
                   node {
                     id
                     owner { address }
@@ -401,24 +596,12 @@ export class ArweaveTrigger implements INodeType {
             }
           `;
           
-          const response = await this.helpers.httpRequest({
-            method: 'POST',
-            url: graphqlUrl,
-            headers: { 'Content-Type': 'application/json' },
-            body: { query, variables: { minSize: sizeThreshold, first: 100 } },
-            timeout,
-          }) as { data: GraphQLTransactionsResponse };
-          
-          const lastProcessedId = webhookData.lastProcessedId as string | undefined;
-          const transactions = response.data.transactions.edges.filter(
+          const uploads = await pollNewTransactions(query, { minSize: sizeThreshold });
+          const transactions = uploads.filter(
             (edge) => edge.node.data && parseInt(edge.node.data.size, 10) >= sizeThreshold,
           );
           
-          for (const edge of transactions.slice(0, limit)) {
-            if (lastProcessedId && edge.node.id === lastProcessedId) {
-              break;
-            }
-            
+          for (const edge of transactions) {
             const decodedTags = edge.node.tags.map((t) => ({
               name: decodeBase64Url(t.name),
               value: decodeBase64Url(t.value),
@@ -437,9 +620,98 @@ export class ArweaveTrigger implements INodeType {
               },
             });
           }
+          break;
+        }
+
+        case 'transactionStatus': {
+          const watchSource = this.getNodeParameter('watchSource', 'list') as string;
+          const dropAfterBlocks = this.getNodeParameter(
+            'dropAfterBlocks',
+            ARWEAVE_CONSTANTS.ANCHOR_DEPTH,
+          ) as number;
+          const workflowData = this.getWorkflowStaticData('global');
+          const watchListKey = this.getNodeParameter('watchListKey', 'arweaveWatchList') as string;
+          const resolvedIds = (webhookData.resolvedIds ?? []) as string[];
           
-          if (transactions.length > 0) {
-            webhookData.lastProcessedId = transactions[0].node.id;
+          // Listed IDs cannot be removed from the parameter, so resolved ones are remembered
+          const listedIds =
+            watchSource === 'staticData'
+              ? ((workflowData[watchListKey] ?? []) as string[])
+              : (this.getNodeParameter('transactionIds', '') as string)
+                  .split(',')
+                  .map((id) => id.trim())
+                  .filter((id) => id && !resolvedIds.includes(id));
+          const invalidIds = listedIds.filter((id) => !isValidTransactionId(id));
+          if (invalidIds.length > 0 && watchSource !== 'staticData') {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Invalid transaction ID: ${invalidIds[0]}`,
+            );
+          }
+          // A malformed entry added by a workflow would fail every poll, so it is dropped instead
+          for (const id of invalidIds) {
+            returnData.push({ json: { event: 'invalid', id } });
+          }
+          const watchList = listedIds.filter((id) => !invalidIds.includes(id));
+          
+          const info = (await gatewayRequest(
+            this,
+            gatewayUrls,
+            { method: 'GET', path: '/info', headers: authHeaders, timeout },
+            readPolicy,
+          )) as { height: number };
+          const watchedSince = (webhookData.watchedSince ?? {}) as Record<string, number>;
+          const resolved: string[] = [];
+          
+          for (const id of watchList) {
+            watchedSince[id] = watchedSince[id] ?? info.height;
+            
+            // Gateways answer 202 with "Pending" for pending transactions and 404 for unknown ones
+            let status: ArweaveTransactionStatus | string | undefined;
+            try {
+              status = (await getTransactionStatus(this, id)) as ArweaveTransactionStatus | string;
+            } catch (error) {
+              if ((error as NodeApiError).httpCode !== '404') {
+                throw error;
+              }
+            }
+            
+            const blocksWaited = info.height - watchedSince[id];
+            if (
+              typeof status === 'object' &&
+              status.number_of_confirmations >= Math.max(minConfirmations, 1)
+            ) {
+              returnData.push({
+                json: {
+                  event: 'confirmed',
+                  id,
+                  blockHeight: status.block_height,
+                  blockHash: status.block_indep_hash,
+                  confirmations: status.number_of_confirmations,
+                },
+              });
+              resolved.push(id);
+            } else if (status === undefined && blocksWaited >= dropAfterBlocks) {
+              returnData.push({ json: { event: 'dropped', id, blocksWaited } });
+              resolved.push(id);
+            }
+          }
+          
+          // IDs taken off the watch list are forgotten along with resolved ones
+          for (const id of Object.keys(watchedSince)) {
+            if (resolved.includes(id) || !watchList.includes(id)) {
+              delete watchedSince[id];
+            }
+          }
+          webhookData.watchedSince = watchedSince;
+          if (watchSource === 'staticData') {
+            workflowData[watchListKey] = ((workflowData[watchListKey] ?? []) as string[]).filter(
+              (id) => !resolved.includes(id) && !invalidIds.includes(id),
+            );
+          } else {
+            webhookData.resolvedIds = [...resolvedIds, ...resolved].slice(
+              -ARWEAVE_CONSTANTS.TRIGGER_SEEN_IDS,
+            );
           }
           break;
         }
@@ -448,16 +720,19 @@ export class ArweaveTrigger implements INodeType {
           const contractId = this.getNodeParameter('contractId') as string;
           
           const query = `
-            query GetContractInteractions($contractId: ID!, $first: Int) {
+            query GetContractInteractions($contractId: ID!, $first: Int, $after: String) {
               transactions(
                 first: $first
+                after: $after
                 sort: HEIGHT_DESC
                 tags: [
                   { name: "App-Name", values: ["SmartWeaveAction"] }
                   { name: "Contract", values: [$contractId] }
                 ]
               ) {
+                pageInfo { hasNextPage }
                 edges {
+                  cursor
                   node {
                     id
                     owner { address }
@@ -469,22 +744,9 @@ export class ArweaveTrigger implements INodeType {
             }
           `;
           
-          const response = await this.helpers.httpRequest({
-            method: 'POST',
-            url: graphqlUrl,
-            headers: { 'Content-Type': 'application/json' },
-            body: { query, variables: { contractId, first: limit } },
-            timeout,
-          }) as { data: GraphQLTransactionsResponse };
-          
-          const lastProcessedId = webhookData.lastProcessedId as string | undefined;
-          const interactions = response.data.transactions.edges;
+          const interactions = await pollNewTransactions(query, { contractId });
           
           for (const edge of interactions) {
-            if (lastProcessedId && edge.node.id === lastProcessedId) {
-              break;
-            }
-            
             const decodedTags = edge.node.tags.map((t) => ({
               name: decodeBase64Url(t.name),
               value: decodeBase64Url(t.value),
@@ -511,16 +773,58 @@ export class ArweaveTrigger implements INodeType {
               },
             });
           }
-          
-          if (interactions.length > 0) {
-            webhookData.lastProcessedId = interactions[0].node.id;
-          }
           break;
         }
 
         default:
           throw new NodeOperationError(this.getNode(), `Unknown trigger type: ${triggerType}`);
       }
+
+      if (holding) {
+        const held = (webhookData.heldTransactions ?? {}) as Record<string, HeldTransaction>;
+        const waiting = Object.keys(held);
+        const info = (await gatewayRequest(
+          this,
+          gatewayUrls,
+          { method: 'GET', path: '/info', headers: authHeaders, timeout },
+          readPolicy,
+        )) as { height: number };
+
+        // Blocks of transactions held by earlier polls may have been mined or forked away since
+        for (let start = 0; start < waiting.length; start += ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE) {
+          const ids = waiting.slice(start, start + ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE);
+          const response = (await gatewayRequest(
+            this,
+            graphqlUrls,
+            {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', ...authHeaders },
+              body: { query: HELD_BLOCKS_QUERY, variables: { ids, first: ids.length } },
+              timeout,
+            },
+            readPolicy,
+          )) as { data: GraphQLTransactionsResponse };
+          const blocks = new Map(
+            response.data.transactions.edges.map((edge) => [edge.node.id, edge.node.block]),
+          );
+          for (const id of ids) {
+            held[id].item.block = (blocks.get(id) ?? null) as IDataObject | null;
+          }
+        }
+
+        for (const { json } of returnData) {
+          const id = (json.id ?? json.interactionId) as string;
+          held[id] = held[id] ?? { item: json, seenAt: info.height };
+        }
+        const { released, dropped } = releaseConfirmed(held, info.height, minConfirmations);
+        markSeen(released.map((json) => (json.id ?? json.interactionId) as string));
+        returnData.splice(
+          0,
+          returnData.length,
+          ...[...released, ...dropped].map((json) => ({ json })),
+        );
+        webhookData.heldTransactions = held;
+      }
     } catch (error) {
       throw new NodeOperationError(this.getNode(), (error as Error).message);
     }
@@ -529,6 +833,7 @@ export class ArweaveTrigger implements INodeType {
       return null;
     }
     
-    return [returnData];
+    const gateway = getServedGateway(this);
+    return [returnData.map((item) => ({ ...item, json: { ...item.json, gateway } }))];
   }
 }
@@ -7,7 +7,7 @@
 
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { graphqlRequest, getCredentials } from '../../transport/arweaveClient';
+import { graphqlRequest, getGatewayCredentials } from '../../transport/arweaveClient';
 import { validateTransactionId } from '../../utils/helpers';
 import type { ArNSRecord } from '../../types';
 
@@ -170,7 +170,7 @@ export async function executeArnsOperation(
         const cleanName = name.toLowerCase().replace(/\.arweave\.net$/i, '').trim();
         
         // Query ArNS gateway
-        const credentials = await getCredentials(this);
+        const credentials = await getGatewayCredentials(this);
         const response = await this.helpers.httpRequest({
           method: 'GET',
           url: `${ARNS_GATEWAY}/v1/contract/${ARNS_REGISTRY_CONTRACT}/records/${cleanName}`,
@@ -233,7 +233,7 @@ export async function executeArnsOperation(
           `my-${cleanQuery}`,
         ];
 
-        const credentials = await getCredentials(this);
+        const credentials = await getGatewayCredentials(this);
         const results: Array<{ name: string; available: boolean; record?: unknown }> = [];
 
         if (checkAvailability) {
@@ -301,7 +301,7 @@ export async function executeArnsOperation(
 
         const cleanName = name.toLowerCase().replace(/\.arweave\.net$/i, '').trim();
         
-        const credentials = await getCredentials(this);
+        const credentials = await getGatewayCredentials(this);
         
         try {
           const response = await this.helpers.httpRequest({
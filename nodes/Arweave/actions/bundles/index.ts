@@ -5,17 +5,43 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { getCredentials, getPrice } from '../../transport/arweaveClient';
+import { getDataItemSigner, getPrice, getRawData } from '../../transport/arweaveClient';
+import { bufferSource, uploadTransactionData } from '../../transport/chunkUploader';
+import { postDataItem } from '../../transport/bundlerClient';
 import {
+  base64UrlToBuffer,
   bufferToBase64Url,
+  createArweaveUrl,
+  decodeTags,
   encodeTags,
   generateAnchor,
   winstonToAR,
   calculateDataSize,
 } from '../../utils/helpers';
-import type { DataItem, ArweaveTag } from '../../types';
+import {
+  createSignedDataItem,
+  getNativeAddress,
+  getOwnerAddress,
+  parseBundle,
+  parseDataItem,
+  serializeBundle,
+  verifyDataItem,
+} from '../../utils/ans104';
+import { BUNDLE_TAGS, SIGNATURE_TYPES } from '../../constants';
+import type {
+  DataItem,
+  DataItemSigner,
+  ArweaveTag,
+  ParsedDataItem,
+  SignedDataItem,
+} from '../../types';
 
 export const bundlesOperations: INodeProperties[] = [
   {
@@ -47,6 +73,12 @@ export const bundlesOperations: INodeProperties[] = [
         description: 'Sign data item for bundle',
         action: 'Sign data item',
       },
+      {
+        name: 'Post to Bundler',
+        value: 'postDataItem',
+        description: 'Send a signed data item to the bundler service',
+        action: 'Post data item to bundler',
+      },
       {
         name: 'Upload Bundle',
         value: 'uploadBundle',
@@ -65,6 +97,37 @@ export const bundlesOperations: INodeProperties[] = [
 ];
 
 export const bundlesFields: INodeProperties[] = [
+  // Signer owning the data items
+  {
+    displayName: 'Signer',
+    name: 'signer',
+    type: 'options',
+    default: 'arweave',
+    displayOptions: {
+      show: {
+        resource: ['bundles'],
+        operation: ['createBundle', 'createDataItem', 'signDataItem'],
+      },
+    },
+    options: [
+      {
+        name: 'Arweave Wallet',
+        value: 'arweave',
+        description: 'Sign with the RSA wallet JWK from the credentials',
+      },
+      {
+        name: 'Ethereum Key',
+        value: 'ethereum',
+        description: 'Sign with the Ethereum private key from the credentials',
+      },
+      {
+        name: 'Solana Key',
+        value: 'solana',
+        description: 'Sign with the Solana secret key from the credentials',
+      },
+    ],
+    description: 'Key that owns and signs the data items',
+  },
   // Data items for bundle
   {
     displayName: 'Data Items',
@@ -150,6 +213,33 @@ export const bundlesFields: INodeProperties[] = [
     ],
     description: 'Tags for the data item',
   },
+  // Binary property name for signed data item
+  {
+    displayName: 'Binary Property Name',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    displayOptions: {
+      show: {
+        resource: ['bundles'],
+        operation: ['signDataItem'],
+      },
+    },
+    description: 'Name of the binary property to store the signed data item in',
+  },
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    displayOptions: {
+      show: {
+        resource: ['bundles'],
+        operation: ['postDataItem'],
+      },
+    },
+    description: 'Name of the binary property holding the signed data item',
+  },
   // Bundle data for upload
   {
     displayName: 'Bundle Data',
@@ -163,7 +253,7 @@ export const bundlesFields: INodeProperties[] = [
         operation: ['uploadBundle'],
       },
     },
-    description: 'Serialized bundle data to upload',
+    description: 'Bundle JSON from the Create Bundle operation (<code>{items, length}</code>). Each item is signed with the credential wallet before upload.',
   },
   // Bundle transaction ID for unbundle
   {
@@ -180,6 +270,55 @@ export const bundlesFields: INodeProperties[] = [
     },
     description: 'Transaction ID of the bundle to extract',
   },
+  {
+    displayName: 'Data Output',
+    name: 'dataOutput',
+    type: 'options',
+    default: 'binary',
+    displayOptions: {
+      show: {
+        resource: ['bundles'],
+        operation: ['unbundle'],
+      },
+    },
+    options: [
+      {
+        name: 'Binary',
+        value: 'binary',
+        description: 'Attach each item\'s data as a binary property',
+      },
+      {
+        name: 'Text',
+        value: 'text',
+        description: 'Include each item\'s data as a UTF-8 string',
+      },
+      {
+        name: 'Base64',
+        value: 'base64',
+        description: 'Include each item\'s data as a Base64 string',
+      },
+      {
+        name: 'None',
+        value: 'none',
+        description: 'Only output item headers and tags',
+      },
+    ],
+    description: 'How to output the data of each bundled item',
+  },
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    displayOptions: {
+      show: {
+        resource: ['bundles'],
+        operation: ['unbundle'],
+        dataOutput: ['binary'],
+      },
+    },
+    description: 'Name of the binary property to store each item\'s data in',
+  },
 ];
 
 export async function executeBundlesOperation(
@@ -205,7 +344,8 @@ export async function executeBundlesOperation(
           throw new NodeOperationError(this.getNode(), 'At least one data item is required');
         }
         
-        const credentials = await getCredentials(this);
+        const signerType = this.getNodeParameter('signer', itemIndex, 'arweave') as string;
+        const signer = await getDataItemSigner(this, signerType);
         const bundleItems: DataItem[] = [];
         let totalSize = 0;
         
@@ -219,7 +359,8 @@ export async function executeBundlesOperation(
           }));
           
           bundleItems.push({
-            owner: credentials.jwk.n,
+            signatureType: signer.signatureType,
+            owner: bufferToBase64Url(signer.owner),
             target: item.target || '',
             anchor: generateAnchor(),
             tags: encodeTags(tags),
@@ -257,7 +398,8 @@ export async function executeBundlesOperation(
           tagValues?: { name: string; value: string }[];
         };
         
-        const credentials = await getCredentials(this);
+        const signerType = this.getNodeParameter('signer', itemIndex, 'arweave') as string;
+        const signer = await getDataItemSigner(this, signerType);
         const dataBuffer = Buffer.from(data);
         
         const tags: ArweaveTag[] = (tagsInput.tagValues || []).map((t) => ({
@@ -266,7 +408,8 @@ export async function executeBundlesOperation(
         }));
         
         const dataItem: DataItem = {
-          owner: credentials.jwk.n,
+          signatureType: signer.signatureType,
+          owner: bufferToBase64Url(signer.owner),
           target: target || '',
           anchor: generateAnchor(),
           tags: encodeTags(tags),
@@ -277,6 +420,7 @@ export async function executeBundlesOperation(
           json: {
             success: true,
             message: 'Data item created (ANS-104)',
+            ownerAddress: getNativeAddress(signer.signatureType, signer.owner),
             dataSize: dataBuffer.length,
             tags: tagsInput.tagValues || [],
             dataItem,
@@ -292,33 +436,83 @@ export async function executeBundlesOperation(
         const tagsInput = this.getNodeParameter('tags', itemIndex, {}) as {
           tagValues?: { name: string; value: string }[];
         };
+        const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
         
-        const credentials = await getCredentials(this);
+        const signerType = this.getNodeParameter('signer', itemIndex, 'arweave') as string;
+        const signer = await getDataItemSigner(this, signerType);
         const dataBuffer = Buffer.from(data);
         
-        const tags: ArweaveTag[] = (tagsInput.tagValues || []).map((t) => ({
+        const tags = (tagsInput.tagValues || []).map((t) => ({
           name: t.name,
           value: t.value,
         }));
         
-        // Create data item structure
-        const dataItem: DataItem = {
-          owner: credentials.jwk.n,
-          target: target || '',
+        const dataItem = await createSignedDataItem(signer, {
+          data: dataBuffer,
+          tags,
+          target: target || undefined,
           anchor: generateAnchor(),
-          tags: encodeTags(tags),
-          data: bufferToBase64Url(dataBuffer),
-        };
+        });
         
-        // Note: Actual signing requires RSA operations
-        // This is a simplified representation
         returnData.push({
           json: {
             success: true,
-            message: 'Data item prepared for signing',
+            message: 'Data item signed (ANS-104)',
+            id: dataItem.id,
+            ownerAddress: getNativeAddress(signer.signatureType, signer.owner),
             dataSize: dataBuffer.length,
-            dataItem,
-            note: 'Full RSA signing requires the arweave-js SDK or similar. This represents the data item structure.',
+            itemSize: dataItem.binary.length,
+            tags,
+            dataItem: dataItem.header,
+          },
+          binary: {
+            [binaryPropertyName]: await this.helpers.prepareBinaryData(
+              dataItem.binary,
+              `${dataItem.id}.ans104`,
+              'application/octet-stream',
+            ),
+          },
+        });
+        break;
+      }
+
+      case 'postDataItem': {
+        const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex) as string;
+        const binary = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+
+        let item: ParsedDataItem;
+        try {
+          item = parseDataItem(binary);
+        } catch (error) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Binary property "${binaryPropertyName}" is not an ANS-104 data item: ${(error as Error).message}`,
+          );
+        }
+        if (!(await verifyDataItem(item))) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Data item ${item.id} has an invalid signature`,
+          );
+        }
+
+        const receipt = await postDataItem(this, binary);
+
+        returnData.push({
+          json: {
+            success: true,
+            message: 'Data item accepted by bundler',
+            id: item.id,
+            ownerAddress: getNativeAddress(item.signatureType, item.owner),
+            itemSize: binary.length,
+            bundler: {
+              provider: receipt.provider,
+              endpoint: receipt.endpoint,
+              deadlineHeight: receipt.deadlineHeight,
+              timestamp: receipt.timestamp,
+              receipt: receipt.raw,
+            },
+            url: createArweaveUrl(item.id),
           },
         });
         break;
@@ -338,26 +532,71 @@ export async function executeBundlesOperation(
           throw new NodeOperationError(this.getNode(), 'Bundle contains no items');
         }
         
-        // Calculate total size
-        let totalSize = 0;
-        for (const item of bundleData.items) {
-          const itemData = Buffer.from(item.data, 'base64');
-          totalSize += itemData.length;
+        const signers = new Map<number, DataItemSigner>();
+        const signedItems: SignedDataItem[] = [];
+        for (const [index, item] of bundleData.items.entries()) {
+          const signatureType = item.signatureType || SIGNATURE_TYPES.ARWEAVE.type;
+          const signatureConfig = Object.values(SIGNATURE_TYPES).find(
+            (config) => config.type === signatureType,
+          );
+          if (!signatureConfig) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Bundle item ${index} has unsupported signature type ${signatureType}`,
+            );
+          }
+          let signer = signers.get(signatureType);
+          if (!signer) {
+            signer = await getDataItemSigner(this, signatureConfig.name);
+            signers.set(signatureType, signer);
+          }
+          if (item.owner && item.owner !== bufferToBase64Url(signer.owner)) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Bundle item ${index} is owned by a different ${signatureConfig.name} key than the credential`,
+            );
+          }
+          try {
+            signedItems.push(
+              await createSignedDataItem(signer, {
+                data: base64UrlToBuffer(item.data || ''),
+                tags: decodeTags(item.tags || []),
+                target: item.target || undefined,
+                anchor: item.anchor || undefined,
+              }),
+            );
+          } catch (error) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Invalid bundle item ${index}: ${(error as Error).message}`,
+            );
+          }
         }
-        
-        const priceWinston = await getPrice(this, totalSize);
-        
+
+        const bundle = serializeBundle(signedItems);
+        const upload = await uploadTransactionData(this, bufferSource(bundle), {
+          tags: [...BUNDLE_TAGS],
+        });
+        const { transaction } = upload;
+
         returnData.push({
           json: {
             success: true,
-            message: 'Bundle prepared for upload',
-            itemCount: bundleData.items.length,
-            totalSize,
-            estimatedCost: {
-              winston: priceWinston,
-              ar: winstonToAR(priceWinston),
+            message: 'Bundle uploaded',
+            id: transaction.id,
+            status: upload.status,
+            itemCount: signedItems.length,
+            bundleSize: bundle.byteLength,
+            cost: {
+              winston: transaction.reward,
+              ar: winstonToAR(transaction.reward),
             },
-            note: 'Bundle upload requires transaction signing. Consider using Bundlr/Irys for simplified bundle uploads.',
+            chunked: upload.chunked,
+            chunkCount: upload.chunkCount,
+            resumed: upload.resumed,
+            itemIds: signedItems.map((item) => item.id),
+            items: signedItems.map((item) => item.header),
+            url: createArweaveUrl(transaction.id),
           },
         });
         break;
@@ -365,17 +604,62 @@ export async function executeBundlesOperation(
 
       case 'unbundle': {
         const bundleTxId = this.getNodeParameter('bundleTxId', itemIndex) as string;
-        
-        // Note: Unbundling requires fetching the bundle and parsing ANS-104 format
-        returnData.push({
-          json: {
-            success: true,
-            message: 'Unbundle operation',
+        const dataOutput = this.getNodeParameter('dataOutput', itemIndex, 'binary') as string;
+
+        const raw = await getRawData(this, bundleTxId);
+        let items: ParsedDataItem[];
+        try {
+          items = parseBundle(raw);
+        } catch (error) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Transaction ${bundleTxId} is not a valid ANS-104 bundle: ${(error as Error).message}`,
+          );
+        }
+
+        for (const [index, item] of items.entries()) {
+          const contentType = item.tags.find(
+            (tag) => tag.name.toLowerCase() === 'content-type',
+          )?.value;
+
+          const json: IDataObject = {
             bundleTransactionId: bundleTxId,
-            note: 'Unbundling requires parsing ANS-104 binary format. Use GraphQL to query bundled items with bundledIn filter.',
-            recommendation: 'Query transactions using GraphQL with bundledIn: { id: "' + bundleTxId + '" }',
-          },
-        });
+            index,
+            id: item.id,
+            signatureType: item.signatureType,
+            owner: getOwnerAddress(item.owner),
+            ownerAddress: getNativeAddress(item.signatureType, item.owner),
+            target: bufferToBase64Url(item.target),
+            anchor: bufferToBase64Url(item.anchor),
+            tags: item.tags,
+            valid: await verifyDataItem(item),
+            dataSize: item.data.byteLength,
+            contentType: contentType || null,
+          };
+
+          if (dataOutput === 'text') {
+            json.data = item.data.toString('utf8');
+          } else if (dataOutput === 'base64') {
+            json.data = item.data.toString('base64');
+          }
+
+          const output: INodeExecutionData = { json };
+          if (dataOutput === 'binary') {
+            const binaryPropertyName = this.getNodeParameter(
+              'binaryPropertyName',
+              itemIndex,
+              'data',
+            ) as string;
+            output.binary = {
+              [binaryPropertyName]: await this.helpers.prepareBinaryData(
+                item.data,
+                item.id,
+                contentType || 'application/octet-stream',
+              ),
+            };
+          }
+          returnData.push(output);
+        }
         break;
       }
 
@@ -5,15 +5,33 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeApiError,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import {
   getTransactionData,
   getRawData,
   getTransaction,
+  getDataRoot,
   arweaveApiRequest,
+  queryTransactions,
 } from '../../transport/arweaveClient';
-import { isValidTransactionId, decodeTags, createArweaveUrl } from '../../utils/helpers';
+import {
+  isValidTransactionId,
+  decodeTags,
+  createArweaveUrl,
+  base64UrlToBuffer,
+  bufferToBase64Url,
+} from '../../utils/helpers';
+import { serializeTags, verifyDataItemSignature } from '../../utils/ans104';
+import { computeDataRoot } from '../../utils/merkle';
+import { signatureToId } from '../../utils/transaction';
+import { SIGNATURE_TYPES } from '../../constants';
 import type { Manifest } from '../../types';
 
 export const dataRetrievalOperations: INodeProperties[] = [
@@ -124,6 +142,38 @@ export const dataRetrievalFields: INodeProperties[] = [
     },
     description: 'Name of the binary property to store data in',
   },
+  // Integrity check against the transaction data_root
+  {
+    displayName: 'Verify Integrity',
+    name: 'verifyIntegrity',
+    type: 'options',
+    default: 'off',
+    displayOptions: {
+      show: {
+        resource: ['dataRetrieval'],
+        operation: ['getRawData', 'streamData'],
+      },
+    },
+    options: [
+      {
+        name: 'Off',
+        value: 'off',
+        description: 'Trust the bytes returned by the gateway',
+      },
+      {
+        name: 'Flag Mismatches',
+        value: 'flag',
+        description: 'Recompute the data root and report the result in the output',
+      },
+      {
+        name: 'Fail on Mismatch',
+        value: 'fail',
+        description: 'Recompute the data root and error if it does not match',
+      },
+    ],
+    description:
+      'Whether to check the raw downloaded bytes against the data_root the transaction was signed over, or the signature of a bundled data item',
+  },
   // Include metadata
   {
     displayName: 'Include Metadata',
@@ -140,6 +190,118 @@ export const dataRetrievalFields: INodeProperties[] = [
   },
 ];
 
+/**
+ * Check data against the signature of the bundled data item it belongs to
+ *
+ * The data item header is read from GraphQL. Returns undefined when the ID is not a
+ * bundled data item.
+ */
+async function verifyDataItemData(
+  context: IExecuteFunctions,
+  txId: string,
+  data: Buffer,
+): Promise<boolean | undefined> {
+  const response = await queryTransactions(context, { ids: [txId], first: 1 }, [
+    'id',
+    'anchor',
+    'signature',
+    'recipient',
+    'owner',
+    'tags',
+    'bundledIn',
+  ]);
+  const node = response.transactions.edges[0]?.node;
+  if (!node?.bundledIn?.id) {
+    return undefined;
+  }
+
+  const owner = base64UrlToBuffer(node.owner.key);
+  const signature = base64UrlToBuffer(node.signature || '');
+  // The signature type is not in the GraphQL schema, but each type has its own key length
+  const signatureType = Object.values(SIGNATURE_TYPES).find(
+    (type) => type.ownerLength === owner.length,
+  );
+  if (!signatureType || signatureToId(signature) !== txId) {
+    return false;
+  }
+  return verifyDataItemSignature({
+    id: txId,
+    signatureType: signatureType.type,
+    signature,
+    owner,
+    target: base64UrlToBuffer(node.recipient || ''),
+    anchor: base64UrlToBuffer(node.anchor || ''),
+    tags: node.tags,
+    rawTags: serializeTags(node.tags),
+    data,
+  });
+}
+
+/**
+ * Recompute the Merkle data_root of downloaded data and compare it to the
+ * data_root of the transaction header
+ *
+ * Bundled data items have no layer 1 header, so their data is checked against the
+ * data item signature instead.
+ */
+async function checkIntegrity(
+  context: IExecuteFunctions,
+  txId: string,
+  data: Buffer,
+  mode: string,
+): Promise<IDataObject | undefined> {
+  if (mode === 'off') {
+    return undefined;
+  }
+
+  const dataRoot = bufferToBase64Url(computeDataRoot(data));
+  let expectedDataRoot: string;
+  try {
+    expectedDataRoot = await getDataRoot(context, txId);
+  } catch (error) {
+    let failure = (error as Error).message;
+    if ((error as NodeApiError).httpCode === '404') {
+      const verified = await verifyDataItemData(context, txId, data);
+      if (verified !== undefined) {
+        if (!verified && mode === 'fail') {
+          throw new NodeOperationError(
+            context.getNode(),
+            `Data for ${txId} does not match its data item signature`,
+          );
+        }
+        return { verified, dataRoot, expectedDataRoot: null, method: 'dataItemSignature' };
+      }
+      failure = 'neither a transaction nor a bundled data item was found';
+    }
+    if (mode === 'fail') {
+      throw new NodeOperationError(
+        context.getNode(),
+        `Could not fetch the data_root of ${txId} to verify its data: ${failure}`,
+      );
+    }
+    return { verified: false, dataRoot, expectedDataRoot: null, reason: 'data_root unavailable' };
+  }
+
+  // Format 1 transactions sign their data directly and have an empty data_root
+  if (!expectedDataRoot && (await getTransaction(context, txId)).format === 1) {
+    return {
+      verified: null,
+      dataRoot,
+      expectedDataRoot: null,
+      reason: 'not applicable to format 1 transactions',
+    };
+  }
+
+  const verified = dataRoot === expectedDataRoot;
+  if (!verified && mode === 'fail') {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Data for ${txId} does not match its data_root (expected ${expectedDataRoot}, got ${dataRoot})`,
+    );
+  }
+  return { verified, dataRoot, expectedDataRoot };
+}
+
 export async function executeDataRetrievalOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -195,7 +357,13 @@ export async function executeDataRetrievalOperation(
           );
         }
         
-        const rawData = await getRawData(this, txId);
+        const verifyIntegrity = this.getNodeParameter(
+          'verifyIntegrity',
+          itemIndex,
+          'off',
+        ) as string;
+        const rawData = await getRawData(this, txId, verifyIntegrity !== 'off');
+        const integrity = await checkIntegrity(this, txId, rawData, verifyIntegrity);
         
         if (outputBinary) {
           const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
@@ -208,6 +376,7 @@ export async function executeDataRetrievalOperation(
               success: true,
               transactionId: txId,
               dataSize: rawData.length,
+              integrity,
             },
             binary: {
               [binaryPropertyName]: await this.helpers.prepareBinaryData(
@@ -225,6 +394,7 @@ export async function executeDataRetrievalOperation(
               data: rawData.toString('base64'),
               encoding: 'base64',
               dataSize: rawData.length,
+              integrity,
               url: createArweaveUrl(txId),
             },
           });
@@ -290,7 +460,13 @@ export async function executeDataRetrievalOperation(
         }
         
         // For streaming, we fetch the raw data (in production, this could use chunked transfer)
-        const rawData = await getRawData(this, txId);
+        const verifyIntegrity = this.getNodeParameter(
+          'verifyIntegrity',
+          itemIndex,
+          'off',
+        ) as string;
+        const rawData = await getRawData(this, txId, verifyIntegrity !== 'off');
+        const integrity = await checkIntegrity(this, txId, rawData, verifyIntegrity);
         const transaction = await getTransaction(this, txId);
         const decodedTags = decodeTags(transaction.tags || []);
         const contentTypeTag = decodedTags.find((t) => t.name === 'Content-Type');
@@ -304,6 +480,7 @@ export async function executeDataRetrievalOperation(
               transactionId: txId,
               dataSize: rawData.length,
               contentType: contentTypeTag?.value || 'application/octet-stream',
+              integrity,
             },
             binary: {
               [binaryPropertyName]: await this.helpers.prepareBinaryData(
@@ -322,6 +499,7 @@ export async function executeDataRetrievalOperation(
               encoding: 'base64',
               dataSize: rawData.length,
               contentType: contentTypeTag?.value || 'application/octet-stream',
+              integrity,
               url: createArweaveUrl(txId),
             },
           });
@@ -5,18 +5,32 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { arweaveApiRequest, getCredentials, getPrice } from '../../transport/arweaveClient';
 import {
-  stringToBase64Url,
+  binarySource,
+  bufferSource,
+  readSource,
+  uploadTransactionData,
+} from '../../transport/chunkUploader';
+import { postDataItem } from '../../transport/bundlerClient';
+import {
   bufferToBase64Url,
   calculateDataSize,
   winstonToAR,
   encodeTags,
   getContentTypeFromExtension,
+  createArweaveUrl,
+  generateAnchor,
 } from '../../utils/helpers';
-import type { ArweaveTag } from '../../types';
+import { createArweaveSigner, createSignedDataItem } from '../../utils/ans104';
+import type { ArweaveTag, DataUploadResult, UploadSource } from '../../types';
 
 export const dataUploadOperations: INodeProperties[] = [
   {
@@ -72,6 +86,34 @@ export const dataUploadOperations: INodeProperties[] = [
 ];
 
 export const dataUploadFields: INodeProperties[] = [
+  // Upload method
+  {
+    displayName: 'Upload Via',
+    name: 'uploadMethod',
+    type: 'options',
+    default: 'transaction',
+    displayOptions: {
+      show: {
+        resource: ['dataUpload'],
+        operation: ['uploadData', 'uploadFile', 'uploadJSON'],
+      },
+    },
+    options: [
+      {
+        name: 'Arweave Transaction',
+        value: 'transaction',
+        description:
+          'Post a layer 1 transaction and wait for it to be mined. A failed upload of over 100 KB resumes from its last chunk when re-run, in active workflows only.',
+      },
+      {
+        name: 'Bundler',
+        value: 'bundler',
+        description:
+          'Sign an ANS-104 data item and post it to the bundler from the credentials for near-instant confirmation',
+      },
+    ],
+    description: 'How to store the data on Arweave',
+  },
   // Data for uploadData
   {
     displayName: 'Data',
@@ -265,6 +307,63 @@ export const dataUploadFields: INodeProperties[] = [
   },
 ];
 
+function buildUploadResult(upload: DataUploadResult) {
+  const { transaction } = upload;
+  return {
+    id: transaction.id,
+    status: upload.status,
+    dataSize: parseInt(transaction.data_size, 10),
+    cost: {
+      winston: transaction.reward,
+      ar: winstonToAR(transaction.reward),
+    },
+    chunked: upload.chunked,
+    chunkCount: upload.chunkCount,
+    resumed: upload.resumed,
+  };
+}
+
+/**
+ * Upload a source with the selected method and return the common result fields
+ */
+async function uploadWithMethod(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  source: UploadSource,
+  tags: ArweaveTag[],
+): Promise<IDataObject> {
+  const uploadMethod = context.getNodeParameter('uploadMethod', itemIndex, 'transaction') as string;
+
+  if (uploadMethod === 'bundler') {
+    const credentials = await getCredentials(context);
+    const dataItem = await createSignedDataItem(createArweaveSigner(credentials.jwk), {
+      data: await readSource(source),
+      tags,
+      anchor: generateAnchor(),
+    });
+    const receipt = await postDataItem(context, dataItem.binary);
+    return {
+      id: dataItem.id,
+      status: 'Accepted by bundler',
+      dataSize: source.size,
+      bundler: {
+        provider: receipt.provider,
+        endpoint: receipt.endpoint,
+        deadlineHeight: receipt.deadlineHeight,
+        timestamp: receipt.timestamp,
+        receipt: receipt.raw,
+      },
+      url: createArweaveUrl(dataItem.id),
+    };
+  }
+
+  const upload = await uploadTransactionData(context, source, { tags });
+  return {
+    ...buildUploadResult(upload),
+    url: createArweaveUrl(upload.transaction.id),
+  };
+}
+
 export async function executeDataUploadOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -282,10 +381,6 @@ export async function executeDataUploadOperation(
         };
         
         const dataBuffer = Buffer.from(data);
-        const dataSize = dataBuffer.length;
-        
-        // Get price
-        const priceWinston = await getPrice(this, dataSize);
         
         // Prepare tags
         const userTags: ArweaveTag[] = (tagsInput.tagValues || []).map((t) => ({
@@ -296,36 +391,14 @@ export async function executeDataUploadOperation(
         // Add Content-Type tag
         userTags.push({ name: 'Content-Type', value: contentType });
         
-        const encodedTags = encodeTags(userTags);
-        const encodedData = bufferToBase64Url(dataBuffer);
-        
-        // Get credentials
-        const credentials = await getCredentials(this);
-        
-        // Create transaction structure (simplified - in production would need proper signing)
-        const txData = {
-          format: 2,
-          owner: credentials.jwk.n,
-          target: '',
-          quantity: '0',
-          reward: priceWinston,
-          data: encodedData,
-          data_size: dataSize.toString(),
-          tags: encodedTags,
-        };
+        const upload = await uploadWithMethod(this, itemIndex, bufferSource(dataBuffer), userTags);
         
         returnData.push({
           json: {
             success: true,
-            message: 'Data prepared for upload',
-            dataSize,
-            estimatedCost: {
-              winston: priceWinston,
-              ar: winstonToAR(priceWinston),
-            },
+            message: 'Data uploaded',
+            ...upload,
             tags: userTags,
-            transactionData: txData,
-            note: 'Transaction requires signing before submission. Use submitTransaction operation.',
           },
         });
         break;
@@ -339,26 +412,21 @@ export async function executeDataUploadOperation(
           tagValues?: { name: string; value: string }[];
         };
         
-        let fileBuffer: Buffer;
+        let fileSource: UploadSource;
         let detectedContentType: string;
         
         if (binaryData) {
           const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
-          const binaryDataBuffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
-          fileBuffer = binaryDataBuffer;
+          fileSource = await binarySource(this, itemIndex, binaryPropertyName);
           const binaryMetadata = this.getInputData()[itemIndex].binary?.[binaryPropertyName];
           detectedContentType = binaryMetadata?.mimeType || getContentTypeFromExtension(fileName);
         } else {
           const fileData = this.getNodeParameter('fileData', itemIndex) as string;
-          fileBuffer = Buffer.from(fileData, 'base64');
+          fileSource = bufferSource(Buffer.from(fileData, 'base64'));
           detectedContentType = getContentTypeFromExtension(fileName);
         }
         
         const contentType = contentTypeParam || detectedContentType;
-        const dataSize = fileBuffer.length;
-        
-        // Get price
-        const priceWinston = await getPrice(this, dataSize);
         
         // Prepare tags
         const userTags: ArweaveTag[] = (tagsInput.tagValues || []).map((t) => ({
@@ -371,35 +439,16 @@ export async function executeDataUploadOperation(
           userTags.push({ name: 'File-Name', value: fileName });
         }
         
-        const encodedTags = encodeTags(userTags);
-        const encodedData = bufferToBase64Url(fileBuffer);
-        
-        const credentials = await getCredentials(this);
-        
-        const txData = {
-          format: 2,
-          owner: credentials.jwk.n,
-          target: '',
-          quantity: '0',
-          reward: priceWinston,
-          data: encodedData,
-          data_size: dataSize.toString(),
-          tags: encodedTags,
-        };
+        const upload = await uploadWithMethod(this, itemIndex, fileSource, userTags);
         
         returnData.push({
           json: {
             success: true,
-            message: 'File prepared for upload',
+            message: 'File uploaded',
             fileName,
             contentType,
-            dataSize,
-            estimatedCost: {
-              winston: priceWinston,
-              ar: winstonToAR(priceWinston),
-            },
+            ...upload,
             tags: userTags,
-            transactionData: txData,
           },
         });
         break;
@@ -420,9 +469,6 @@ export async function executeDataUploadOperation(
         
         const dataString = JSON.stringify(jsonData);
         const dataBuffer = Buffer.from(dataString);
-        const dataSize = dataBuffer.length;
-        
-        const priceWinston = await getPrice(this, dataSize);
         
         const userTags: ArweaveTag[] = (tagsInput.tagValues || []).map((t) => ({
           name: t.name,
@@ -431,33 +477,14 @@ export async function executeDataUploadOperation(
         
         userTags.push({ name: 'Content-Type', value: 'application/json' });
         
-        const encodedTags = encodeTags(userTags);
-        const encodedData = stringToBase64Url(dataString);
-        
-        const credentials = await getCredentials(this);
-        
-        const txData = {
-          format: 2,
-          owner: credentials.jwk.n,
-          target: '',
-          quantity: '0',
-          reward: priceWinston,
-          data: encodedData,
-          data_size: dataSize.toString(),
-          tags: encodedTags,
-        };
+        const upload = await uploadWithMethod(this, itemIndex, bufferSource(dataBuffer), userTags);
         
         returnData.push({
           json: {
             success: true,
-            message: 'JSON prepared for upload',
-            dataSize,
-            estimatedCost: {
-              winston: priceWinston,
-              ar: winstonToAR(priceWinston),
-            },
+            message: 'JSON uploaded',
+            ...upload,
             tags: userTags,
-            transactionData: txData,
           },
         });
         break;
@@ -5,11 +5,29 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { queryTransactions, graphqlRequest } from '../../transport/arweaveClient';
-import { isValidAddress } from '../../utils/helpers';
-import type { TagFilter, BlockFilter } from '../../types';
+import {
+  queryTransactions,
+  graphqlRequest,
+  getGraphqlDialect,
+  paginateTransactions,
+} from '../../transport/arweaveClient';
+import { isValidAddress, isValidTransactionId } from '../../utils/helpers';
+import { matchesValueBounds } from '../../utils/graphql';
+import { ARWEAVE_CONSTANTS } from '../../constants';
+import type {
+  TagFilter,
+  BlockFilter,
+  QueryOptions,
+  TransactionField,
+  ValueRange,
+} from '../../types';
 
 export const graphqlOperations: INodeProperties[] = [
   {
@@ -53,12 +71,35 @@ export const graphqlOperations: INodeProperties[] = [
         description: 'Filter by block height range',
         action: 'Query by block height',
       },
+      {
+        name: 'Get Dialect',
+        value: 'getDialect',
+        description: 'Detect which GraphQL filters the endpoint supports',
+        action: 'Detect GraphQL dialect',
+      },
     ],
     default: 'queryTransactions',
   },
 ];
 
 export const graphqlFields: INodeProperties[] = [
+  // Return all pages
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+      },
+      hide: {
+        operation: ['getDialect'],
+      },
+    },
+    description:
+      'Whether to follow cursors through every page and output one item per transaction, or to return a single page',
+  },
   // Limit
   {
     displayName: 'Limit',
@@ -68,10 +109,73 @@ export const graphqlFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['graphql'],
+        returnAll: [false],
+      },
+      hide: {
+        operation: ['getDialect'],
       },
     },
     description: 'Maximum number of results to return',
   },
+  // Pagination
+  {
+    displayName: 'Max Results',
+    name: 'maxResults',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: 0,
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+        returnAll: [true],
+      },
+      hide: {
+        operation: ['getDialect'],
+      },
+    },
+    description: 'Stop after this many transactions (0 for no maximum)',
+  },
+  {
+    displayName: 'Page Size',
+    name: 'pageSize',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+      maxValue: ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    },
+    default: ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+        returnAll: [true],
+      },
+      hide: {
+        operation: ['getDialect'],
+      },
+    },
+    description: 'Transactions requested per page',
+  },
+  {
+    displayName: 'Page Delay (Ms)',
+    name: 'pageDelay',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: 250,
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+        returnAll: [true],
+      },
+      hide: {
+        operation: ['getDialect'],
+      },
+    },
+    description: 'How long to wait between pages, to stay under gateway rate limits',
+  },
   // Cursor for pagination
   {
     displayName: 'After Cursor',
@@ -82,6 +186,9 @@ export const graphqlFields: INodeProperties[] = [
       show: {
         resource: ['graphql'],
       },
+      hide: {
+        operation: ['getDialect'],
+      },
     },
     description: 'Cursor for pagination (from previous query)',
   },
@@ -95,6 +202,9 @@ export const graphqlFields: INodeProperties[] = [
       show: {
         resource: ['graphql'],
       },
+      hide: {
+        operation: ['getDialect'],
+      },
     },
     options: [
       { name: 'Newest First', value: 'HEIGHT_DESC' },
@@ -146,6 +256,31 @@ export const graphqlFields: INodeProperties[] = [
               { name: 'Not Equals', value: 'NEQ' },
             ],
           },
+          {
+            displayName: 'Match',
+            name: 'match',
+            type: 'options',
+            default: 'EXACT',
+            options: [
+              { name: 'Exact', value: 'EXACT' },
+              {
+                name: 'Wildcard',
+                value: 'WILDCARD',
+                description: 'Values may use * as a wildcard (ar.io gateways)',
+              },
+              {
+                name: 'Fuzzy (All Words)',
+                value: 'FUZZY_AND',
+                description: 'Match values containing every word (ar.io gateways)',
+              },
+              {
+                name: 'Fuzzy (Any Word)',
+                value: 'FUZZY_OR',
+                description: 'Match values containing any word (ar.io gateways)',
+              },
+            ],
+            description: 'How values are compared with the tag',
+          },
         ],
       },
     ],
@@ -206,8 +341,259 @@ export const graphqlFields: INodeProperties[] = [
     },
     description: 'Maximum block height (0 for no maximum)',
   },
+  // Further filters for queryTransactions
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+        operation: ['queryTransactions'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Block Time After',
+        name: 'blockTimeAfter',
+        type: 'dateTime',
+        default: '',
+        description:
+          'Only transactions mined at or after this time. Checked on each page where the endpoint has no timestamp filter.',
+      },
+      {
+        displayName: 'Block Time Before',
+        name: 'blockTimeBefore',
+        type: 'dateTime',
+        default: '',
+        description:
+          'Only transactions mined at or before this time. Checked on each page where the endpoint has no timestamp filter.',
+      },
+      {
+        displayName: 'Bundled In',
+        name: 'bundledIn',
+        type: 'string',
+        default: '',
+        description: 'Comma-separated bundle transaction IDs whose data items to return',
+      },
+      {
+        displayName: 'Ingested After',
+        name: 'ingestedAfter',
+        type: 'dateTime',
+        default: '',
+        description: 'Only transactions the gateway indexed at or after this time (ar.io gateways)',
+      },
+      {
+        displayName: 'Ingested Before',
+        name: 'ingestedBefore',
+        type: 'dateTime',
+        default: '',
+        description:
+          'Only transactions the gateway indexed at or before this time (ar.io gateways)',
+      },
+      {
+        displayName: 'Max Data Size (Bytes)',
+        name: 'maxDataSize',
+        type: 'number',
+        default: 0,
+        description: 'Largest data size to return (0 for no maximum). Checked on each page.',
+      },
+      {
+        displayName: 'Max Fee (Winston)',
+        name: 'maxFee',
+        type: 'string',
+        default: '',
+        description: 'Highest fee to return. Checked on each page.',
+      },
+      {
+        displayName: 'Max Quantity (Winston)',
+        name: 'maxQuantity',
+        type: 'string',
+        default: '',
+        description: 'Highest AR quantity transferred to return. Checked on each page.',
+      },
+      {
+        displayName: 'Min Data Size (Bytes)',
+        name: 'minDataSize',
+        type: 'number',
+        default: 0,
+        description: 'Smallest data size to return (0 for no minimum). Checked on each page.',
+      },
+      {
+        displayName: 'Min Fee (Winston)',
+        name: 'minFee',
+        type: 'string',
+        default: '',
+        description: 'Lowest fee to return. Checked on each page.',
+      },
+      {
+        displayName: 'Min Quantity (Winston)',
+        name: 'minQuantity',
+        type: 'string',
+        default: '',
+        description: 'Lowest AR quantity transferred to return. Checked on each page.',
+      },
+      {
+        displayName: 'Transaction IDs',
+        name: 'ids',
+        type: 'string',
+        default: '',
+        description: 'Comma-separated transaction IDs to return',
+      },
+    ],
+  },
+  // Node fields to return
+  {
+    displayName: 'Fields',
+    name: 'fields',
+    type: 'multiOptions',
+    default: [],
+    displayOptions: {
+      show: {
+        resource: ['graphql'],
+      },
+      hide: {
+        operation: ['getDialect'],
+      },
+    },
+    options: [
+      { name: 'Anchor', value: 'anchor' },
+      { name: 'Block', value: 'block' },
+      { name: 'Bundled In', value: 'bundledIn' },
+      { name: 'Data Size and Type', value: 'data' },
+      { name: 'Fee', value: 'fee' },
+      { name: 'ID', value: 'id' },
+      { name: 'Owner', value: 'owner' },
+      { name: 'Parent', value: 'parent' },
+      { name: 'Quantity', value: 'quantity' },
+      { name: 'Recipient', value: 'recipient' },
+      { name: 'Signature', value: 'signature' },
+      { name: 'Tags', value: 'tags' },
+    ],
+    description:
+      'Transaction fields to return. Leave empty to return every field; the ID is always returned.',
+  },
 ];
 
+type TagFilterInput = { name: string; values: string; op?: string; match?: string };
+
+function getTagFilters(tagFilters: TagFilterInput[]): TagFilter[] {
+  return tagFilters.map((tf) => ({
+    name: tf.name,
+    values: tf.values.split(',').map((v) => v.trim()),
+    op: (tf.op || 'EQ') as TagFilter['op'],
+    // Gateways without match modes reject the field, so exact matches leave it out
+    ...(tf.match && tf.match !== 'EXACT' ? { match: tf.match as TagFilter['match'] } : {}),
+  }));
+}
+
+/**
+ * Add the Filters collection of queryTransactions to the query
+ */
+function applyFilters(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  variables: QueryOptions,
+  filters: IDataObject,
+): void {
+  const splitIds = (value: string, label: string) =>
+    value
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => {
+        if (id && !isValidTransactionId(id)) {
+          throw new NodeOperationError(context.getNode(), `Invalid ${label}: ${id}`, {
+            itemIndex,
+          });
+        }
+        return id;
+      });
+  const amountRange = (min: unknown, max: unknown, label: string): ValueRange | undefined => {
+    const range: ValueRange = {};
+    for (const [bound, value] of [
+      ['min', min],
+      ['max', max],
+    ] as const) {
+      const amount = String(value ?? '').trim();
+      if (!amount) continue;
+      if (!/^\d+$/.test(amount)) {
+        throw new NodeOperationError(
+          context.getNode(),
+          `${label} must be a whole number: ${amount}`,
+          { itemIndex },
+        );
+      }
+      range[bound] = amount;
+    }
+    return range.min === undefined && range.max === undefined ? undefined : range;
+  };
+  const toSeconds = (date: unknown) => {
+    if (!date) return undefined;
+    const time = new Date(date as string).getTime();
+    if (Number.isNaN(time)) {
+      throw new NodeOperationError(context.getNode(), `Invalid date: ${date}`, { itemIndex });
+    }
+    return Math.floor(time / 1000);
+  };
+
+  if (filters.ids) variables.ids = splitIds(filters.ids as string, 'transaction ID');
+  if (filters.bundledIn) variables.bundledIn = splitIds(filters.bundledIn as string, 'bundle ID');
+  if (filters.ingestedAfter || filters.ingestedBefore) {
+    variables.ingestedAt = {
+      min: toSeconds(filters.ingestedAfter),
+      max: toSeconds(filters.ingestedBefore),
+    };
+  }
+  if (filters.blockTimeAfter || filters.blockTimeBefore) {
+    variables.blockTime = {
+      min: toSeconds(filters.blockTimeAfter),
+      max: toSeconds(filters.blockTimeBefore),
+    };
+  }
+  variables.fee = amountRange(filters.minFee, filters.maxFee, 'Fee');
+  variables.quantity = amountRange(filters.minQuantity, filters.maxQuantity, 'Quantity');
+  variables.dataSize = amountRange(
+    (filters.minDataSize as number) || '',
+    (filters.maxDataSize as number) || '',
+    'Data size',
+  );
+}
+
+/**
+ * Walk every page of a query, outputting one item per transaction with its cursor
+ */
+async function queryAllPages(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  variables: QueryOptions,
+  fields?: TransactionField[],
+): Promise<INodeExecutionData[]> {
+  const items: INodeExecutionData[] = [];
+  const pages = paginateTransactions(
+    context,
+    variables,
+    {
+      maxResults: context.getNodeParameter('maxResults', itemIndex, 0) as number,
+      pageSize: context.getNodeParameter(
+        'pageSize',
+        itemIndex,
+        ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+      ) as number,
+      pageDelay: context.getNodeParameter('pageDelay', itemIndex, 0) as number,
+    },
+    fields,
+  );
+  for await (const edge of pages) {
+    items.push({
+      json: { ...edge.node, cursor: edge.cursor } as unknown as IDataObject,
+      pairedItem: { item: itemIndex },
+    });
+  }
+  return items;
+}
+
 export async function executeGraphqlOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -219,11 +605,14 @@ export async function executeGraphqlOperation(
     const limit = this.getNodeParameter('limit', itemIndex, 100) as number;
     const afterCursor = this.getNodeParameter('afterCursor', itemIndex, '') as string;
     const sortOrder = this.getNodeParameter('sortOrder', itemIndex, 'HEIGHT_DESC') as string;
+    const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+    const selectedFields = this.getNodeParameter('fields', itemIndex, []) as TransactionField[];
+    const fields = selectedFields.length > 0 ? selectedFields : undefined;
 
     const buildVariables = () => {
-      const variables: { [key: string]: string | boolean | number | object | null | undefined } = {
+      const variables: QueryOptions = {
         first: limit,
-        sort: sortOrder,
+        sort: sortOrder as QueryOptions['sort'],
       };
 
       if (afterCursor) {
@@ -236,7 +625,7 @@ export async function executeGraphqlOperation(
     switch (operation) {
       case 'queryTransactions': {
         const tagsInput = this.getNodeParameter('tags', itemIndex, {}) as {
-          tagFilters?: { name: string; values: string; op?: string }[];
+          tagFilters?: TagFilterInput[];
         };
         const ownersStr = this.getNodeParameter('owners', itemIndex, '') as string;
         const recipientsStr = this.getNodeParameter('recipients', itemIndex, '') as string;
@@ -247,11 +636,7 @@ export async function executeGraphqlOperation(
 
         // Process tags
         if (tagsInput.tagFilters && tagsInput.tagFilters.length > 0) {
-          variables.tags = tagsInput.tagFilters.map((tf) => ({
-            name: tf.name,
-            values: tf.values.split(',').map((v) => v.trim()),
-            op: tf.op || 'EQ',
-          }));
+          variables.tags = getTagFilters(tagsInput.tagFilters);
         }
 
         // Process owners
@@ -283,14 +668,31 @@ export async function executeGraphqlOperation(
           if (maxBlock > 0) (variables.block as BlockFilter).max = maxBlock;
         }
 
-        const result = await queryTransactions(this, variables);
+        applyFilters(
+          this,
+          itemIndex,
+          variables,
+          this.getNodeParameter('filters', itemIndex, {}) as IDataObject,
+        );
+
+        if (returnAll) {
+          returnData.push(...(await queryAllPages(this, itemIndex, variables, fields)));
+          break;
+        }
+
+        const result = await queryTransactions(this, variables, fields);
+        const dialect = await getGraphqlDialect(this);
+        // Cursors cover the whole page, so the next query resumes after filtered transactions too
+        const matches = result.transactions.edges.filter((e) =>
+          matchesValueBounds(e.node, variables, dialect),
+        );
 
         returnData.push({
           json: {
             success: true,
             pageInfo: result.transactions.pageInfo,
-            transactionCount: result.transactions.edges.length,
-            transactions: result.transactions.edges.map((e) => e.node),
+            transactionCount: matches.length,
+            transactions: matches.map((e) => e.node),
             cursors: result.transactions.edges.map((e) => ({
               id: e.node.id,
               cursor: e.cursor,
@@ -302,7 +704,7 @@ export async function executeGraphqlOperation(
 
       case 'queryByTags': {
         const tagsInput = this.getNodeParameter('tags', itemIndex, {}) as {
-          tagFilters?: { name: string; values: string; op?: string }[];
+          tagFilters?: TagFilterInput[];
         };
 
         if (!tagsInput.tagFilters || tagsInput.tagFilters.length === 0) {
@@ -310,13 +712,14 @@ export async function executeGraphqlOperation(
         }
 
         const variables = buildVariables();
-        variables.tags = tagsInput.tagFilters.map((tf) => ({
-          name: tf.name,
-          values: tf.values.split(',').map((v) => v.trim()),
-          op: tf.op || 'EQ',
-        }));
+        variables.tags = getTagFilters(tagsInput.tagFilters);
 
-        const result = await queryTransactions(this, variables);
+        if (returnAll) {
+          returnData.push(...(await queryAllPages(this, itemIndex, variables, fields)));
+          break;
+        }
+
+        const result = await queryTransactions(this, variables, fields);
 
         returnData.push({
           json: {
@@ -346,7 +749,12 @@ export async function executeGraphqlOperation(
         const variables = buildVariables();
         variables.owners = owners;
 
-        const result = await queryTransactions(this, variables);
+        if (returnAll) {
+          returnData.push(...(await queryAllPages(this, itemIndex, variables, fields)));
+          break;
+        }
+
+        const result = await queryTransactions(this, variables, fields);
 
         returnData.push({
           json: {
@@ -377,7 +785,12 @@ export async function executeGraphqlOperation(
         const variables = buildVariables();
         variables.recipients = recipients;
 
-        const result = await queryTransactions(this, variables);
+        if (returnAll) {
+          returnData.push(...(await queryAllPages(this, itemIndex, variables, fields)));
+          break;
+        }
+
+        const result = await queryTransactions(this, variables, fields);
 
         returnData.push({
           json: {
@@ -407,7 +820,12 @@ export async function executeGraphqlOperation(
         if (minBlock > 0) (variables.block as BlockFilter).min = minBlock;
         if (maxBlock > 0) (variables.block as BlockFilter).max = maxBlock;
 
-        const result = await queryTransactions(this, variables);
+        if (returnAll) {
+          returnData.push(...(await queryAllPages(this, itemIndex, variables, fields)));
+          break;
+        }
+
+        const result = await queryTransactions(this, variables, fields);
 
         returnData.push({
           json: {
@@ -421,6 +839,18 @@ export async function executeGraphqlOperation(
         break;
       }
 
+      case 'getDialect': {
+        const dialect = await getGraphqlDialect(this);
+
+        returnData.push({
+          json: {
+            success: true,
+            ...dialect,
+          },
+        });
+        break;
+      }
+
       default:
         throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
     }
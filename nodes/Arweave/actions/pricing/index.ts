@@ -5,10 +5,37 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { getPrice, getNetworkInfo, arweaveApiRequest } from '../../transport/arweaveClient';
-import { winstonToAR, isValidAddress, formatFileSize } from '../../utils/helpers';
+import {
+  getPrice,
+  getNetworkInfo,
+  arweaveApiRequest,
+  getCredentials,
+  getWalletBalance,
+  createSignedTransaction,
+  submitTransaction,
+} from '../../transport/arweaveClient';
+import {
+  getBundlerBalance,
+  getBundlerDepositAddress,
+  getBundlerPrice,
+  registerBundlerFunding,
+  withdrawFromBundler,
+} from '../../transport/bundlerClient';
+import {
+  winstonToAR,
+  isValidAddress,
+  isValidTransactionId,
+  formatFileSize,
+  parseAmount,
+} from '../../utils/helpers';
+import { ERROR_MESSAGES } from '../../constants';
 
 export const pricingOperations: INodeProperties[] = [
   {
@@ -46,6 +73,36 @@ export const pricingOperations: INodeProperties[] = [
         description: 'Calculate cost for multiple files',
         action: 'Estimate upload cost',
       },
+      {
+        name: 'Get Bundler Price',
+        value: 'getBundlerPrice',
+        description: 'Compare the bundler price for data size with the L1 price',
+        action: 'Get bundler price',
+      },
+      {
+        name: 'Get Bundler Balance',
+        value: 'getBundlerBalance',
+        description: 'Get the prepaid bundler balance of an address',
+        action: 'Get bundler balance',
+      },
+      {
+        name: 'Fund Bundler',
+        value: 'fundBundler',
+        description: 'Send AR to the bundler and credit it to the wallet balance',
+        action: 'Fund bundler',
+      },
+      {
+        name: 'Register Bundler Funding',
+        value: 'registerBundlerFunding',
+        description: 'Credit an already posted funding transfer to the wallet balance',
+        action: 'Register bundler funding',
+      },
+      {
+        name: 'Withdraw From Bundler',
+        value: 'withdrawFromBundler',
+        description: 'Withdraw a prepaid bundler balance back to the wallet',
+        action: 'Withdraw from bundler',
+      },
     ],
     default: 'getPrice',
   },
@@ -62,7 +119,7 @@ export const pricingFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['pricing'],
-        operation: ['getPrice', 'getPriceForTarget'],
+        operation: ['getPrice', 'getPriceForTarget', 'getBundlerPrice'],
       },
     },
     description: 'Size of data in bytes',
@@ -112,8 +169,127 @@ export const pricingFields: INodeProperties[] = [
     },
     description: 'Whether to include per-file cost breakdown',
   },
+  // Bundler account
+  {
+    displayName: 'Address',
+    name: 'bundlerAddress',
+    type: 'string',
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['pricing'],
+        operation: ['getBundlerBalance'],
+      },
+    },
+    description: 'Address to get the balance of. Defaults to the credential wallet.',
+  },
+  {
+    displayName: 'Funding Transaction ID',
+    name: 'fundingTransactionId',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['pricing'],
+        operation: ['registerBundlerFunding'],
+      },
+    },
+    description: 'ID of the AR transfer to the bundler deposit address',
+  },
+  {
+    displayName: 'Amount',
+    name: 'amount',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['pricing'],
+        operation: ['fundBundler', 'withdrawFromBundler'],
+      },
+    },
+    description: 'Amount to fund or withdraw, in the selected unit',
+    placeholder: '0.5',
+  },
+  {
+    displayName: 'Amount Unit',
+    name: 'amountUnit',
+    type: 'options',
+    default: 'ar',
+    displayOptions: {
+      show: {
+        resource: ['pricing'],
+        operation: ['fundBundler', 'withdrawFromBundler'],
+      },
+    },
+    options: [
+      { name: 'AR', value: 'ar' },
+      { name: 'Winston', value: 'winston' },
+    ],
+    description: 'Unit of the amount',
+  },
 ];
 
+function getAmount(context: IExecuteFunctions, itemIndex: number): string {
+  const amount = String(context.getNodeParameter('amount', itemIndex)).trim();
+  const amountUnit = context.getNodeParameter('amountUnit', itemIndex, 'ar') as 'ar' | 'winston';
+  try {
+    return parseAmount(amount, amountUnit);
+  } catch (error) {
+    throw new NodeOperationError(context.getNode(), (error as Error).message, { itemIndex });
+  }
+}
+
+/**
+ * Send AR from the credential wallet to the bundler's deposit address and ask the
+ * bundler to credit it, after checking the wallet can cover the amount and fee
+ */
+async function fundBundler(context: IExecuteFunctions, quantity: string): Promise<IDataObject> {
+  const credentials = await getCredentials(context);
+  const depositAddress = await getBundlerDepositAddress(context);
+  const reward = await getPrice(context, 0, depositAddress);
+
+  const balance = await getWalletBalance(context, credentials.address);
+  const required = BigInt(quantity) + BigInt(reward);
+  if (BigInt(balance) < required) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${ERROR_MESSAGES.INSUFFICIENT_FUNDS}: ${winstonToAR(balance)} AR available, ${winstonToAR(required)} AR required including fees`,
+    );
+  }
+
+  const transaction = await createSignedTransaction(context, {
+    tags: [],
+    target: depositAddress,
+    quantity,
+    reward,
+  });
+  const submission = await submitTransaction(context, transaction);
+
+  // The AR has left the wallet at this point, so report a failed registration with the
+  // transaction ID instead of throwing; Register Bundler Funding can retry it
+  let registration: IDataObject;
+  let registered = true;
+  try {
+    registration = await registerBundlerFunding(context, transaction.id);
+  } catch (error) {
+    registration = { error: (error as Error).message };
+    registered = false;
+  }
+
+  return {
+    id: transaction.id,
+    status: submission.status,
+    from: credentials.address,
+    depositAddress,
+    quantity: { winston: quantity, ar: winstonToAR(quantity) },
+    fee: { winston: reward, ar: winstonToAR(reward) },
+    registered,
+    registration,
+  };
+}
+
 export async function executePricingOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -250,6 +426,93 @@ export async function executePricingOperation(
         break;
       }
 
+      case 'getBundlerPrice': {
+        const dataSize = this.getNodeParameter('dataSize', itemIndex) as number;
+
+        if (dataSize < 0) {
+          throw new NodeOperationError(this.getNode(), 'Data size must be non-negative');
+        }
+
+        const bundlerPrice = await getBundlerPrice(this, dataSize);
+        const priceWinston = await getPrice(this, dataSize);
+
+        returnData.push({
+          json: {
+            success: true,
+            dataSize,
+            dataSizeFormatted: formatFileSize(dataSize),
+            bundler: bundlerPrice,
+            arweave: {
+              winston: priceWinston,
+              ar: winstonToAR(priceWinston),
+            },
+          },
+        });
+        break;
+      }
+
+      case 'getBundlerBalance': {
+        const address = (this.getNodeParameter('bundlerAddress', itemIndex, '') as string).trim();
+
+        if (address && !isValidAddress(address)) {
+          throw new NodeOperationError(this.getNode(), 'Invalid address format');
+        }
+
+        const balance = await getBundlerBalance(this, address || undefined);
+
+        returnData.push({
+          json: {
+            success: true,
+            ...balance,
+            ...(balance.unit === 'winston' ? { ar: winstonToAR(balance.amount) } : {}),
+          },
+        });
+        break;
+      }
+
+      case 'fundBundler': {
+        const quantity = getAmount(this, itemIndex);
+
+        returnData.push({
+          json: {
+            success: true,
+            ...(await fundBundler(this, quantity)),
+          },
+        });
+        break;
+      }
+
+      case 'registerBundlerFunding': {
+        const txId = (this.getNodeParameter('fundingTransactionId', itemIndex) as string).trim();
+
+        if (!isValidTransactionId(txId)) {
+          throw new NodeOperationError(this.getNode(), ERROR_MESSAGES.INVALID_TX_ID);
+        }
+
+        returnData.push({
+          json: {
+            success: true,
+            id: txId,
+            registration: await registerBundlerFunding(this, txId),
+          },
+        });
+        break;
+      }
+
+      case 'withdrawFromBundler': {
+        const quantity = getAmount(this, itemIndex);
+        const response = await withdrawFromBundler(this, quantity);
+
+        returnData.push({
+          json: {
+            success: true,
+            quantity: { winston: quantity, ar: winstonToAR(quantity) },
+            response,
+          },
+        });
+        break;
+      }
+
       default:
         throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
     }
@@ -5,10 +5,17 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { checkGatewayHealth, getCredentials } from '../../transport/arweaveClient';
+import { checkGatewayHealth, getCredentials, getTransaction } from '../../transport/arweaveClient';
 import {
+  base64UrlToBuffer,
+  decodeTags,
   validateTransactionId,
   winstonToAr,
   arToWinston,
@@ -16,7 +23,16 @@ import {
   verifySignature,
   formatFileSize,
 } from '../../utils/helpers';
-import { ARWEAVE_CONSTANTS } from '../../constants';
+import {
+  getNativeAddress,
+  getOwnerAddress,
+  parseDataItem,
+  serializeTags,
+  verifyDataItemSignature,
+} from '../../utils/ans104';
+import { signatureToId, verifyTransactionSignature } from '../../utils/transaction';
+import { ARWEAVE_CONSTANTS, ERROR_MESSAGES, SIGNATURE_TYPES } from '../../constants';
+import type { ArweaveTransaction, DataItem, ParsedDataItem } from '../../types';
 
 export const utilityOperations: INodeProperties[] = [
   {
@@ -60,6 +76,12 @@ export const utilityOperations: INodeProperties[] = [
         description: 'Verify message signature',
         action: 'Verify signature',
       },
+      {
+        name: 'Verify Record',
+        value: 'verifyRecord',
+        description: 'Verify a transaction or data item signature and ID',
+        action: 'Verify transaction or data item',
+      },
       {
         name: 'Get API Health',
         value: 'getAPIHealth',
@@ -183,8 +205,145 @@ export const utilityFields: INodeProperties[] = [
     },
     description: 'The public key modulus (n) from JWK (Base64URL encoded)',
   },
+  // Record to verify
+  {
+    displayName: 'Source',
+    name: 'recordSource',
+    type: 'options',
+    default: 'transactionId',
+    displayOptions: {
+      show: {
+        resource: ['utility'],
+        operation: ['verifyRecord'],
+      },
+    },
+    options: [
+      {
+        name: 'Transaction ID',
+        value: 'transactionId',
+        description: 'Fetch the transaction header from the gateway',
+      },
+      {
+        name: 'JSON Header',
+        value: 'header',
+        description: 'A transaction header, or a data item header including its data',
+      },
+      {
+        name: 'ANS-104 Binary',
+        value: 'binary',
+        description: 'A signed data item from a binary property',
+      },
+    ],
+    description: 'Where to read the record to verify from',
+  },
+  {
+    displayName: 'Transaction ID',
+    name: 'recordId',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['utility'],
+        operation: ['verifyRecord'],
+        recordSource: ['transactionId'],
+      },
+    },
+    description: 'ID of the L1 transaction to verify',
+  },
+  {
+    displayName: 'Header',
+    name: 'recordHeader',
+    type: 'json',
+    required: true,
+    default: '{}',
+    displayOptions: {
+      show: {
+        resource: ['utility'],
+        operation: ['verifyRecord'],
+        recordSource: ['header'],
+      },
+    },
+    description:
+      'Transaction header as returned by /tx/{ID}, or a data item header with Base64URL <code>data</code>',
+  },
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    required: true,
+    default: 'data',
+    displayOptions: {
+      show: {
+        resource: ['utility'],
+        operation: ['verifyRecord'],
+        recordSource: ['binary'],
+      },
+    },
+    description: 'Name of the binary property holding the ANS-104 data item',
+  },
+  {
+    displayName: 'Expected Owner',
+    name: 'expectedOwner',
+    type: 'string',
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['utility'],
+        operation: ['verifyRecord'],
+      },
+    },
+    description:
+      'Optional address the record must be signed by (Arweave, Ethereum or Solana notation)',
+  },
 ];
 
+interface RecordVerdict {
+  kind: 'transaction' | 'dataItem';
+  id: string;
+  signatureType: number;
+  owner: Buffer;
+  signatureValid: boolean;
+  computedId: string;
+}
+
+async function verifyTransactionRecord(transaction: ArweaveTransaction): Promise<RecordVerdict> {
+  return {
+    kind: 'transaction',
+    id: transaction.id,
+    signatureType: SIGNATURE_TYPES.ARWEAVE.type,
+    owner: base64UrlToBuffer(transaction.owner || ''),
+    signatureValid: await verifyTransactionSignature(transaction),
+    computedId: signatureToId(base64UrlToBuffer(transaction.signature || '')),
+  };
+}
+
+async function verifyDataItemRecord(item: ParsedDataItem): Promise<RecordVerdict> {
+  return {
+    kind: 'dataItem',
+    id: item.id,
+    signatureType: item.signatureType,
+    owner: item.owner,
+    signatureValid: await verifyDataItemSignature(item),
+    computedId: signatureToId(item.signature),
+  };
+}
+
+function dataItemFromHeader(header: DataItem): ParsedDataItem {
+  const tags = decodeTags(header.tags || []);
+  return {
+    id: header.id || '',
+    signatureType: header.signatureType || SIGNATURE_TYPES.ARWEAVE.type,
+    signature: base64UrlToBuffer(header.signature || ''),
+    owner: base64UrlToBuffer(header.owner || ''),
+    target: base64UrlToBuffer(header.target || ''),
+    anchor: base64UrlToBuffer(header.anchor || ''),
+    tags,
+    rawTags: serializeTags(tags),
+    data: base64UrlToBuffer(header.data || ''),
+  };
+}
+
 export async function executeUtilityOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -282,6 +441,7 @@ export async function executeUtilityOperation(
             message,
             signature,
             signerAddress: credentials.address,
+            publicKey: credentials.jwk.n,
             algorithm: 'RSA-PSS with SHA-256',
           },
         });
@@ -318,6 +478,81 @@ export async function executeUtilityOperation(
         break;
       }
 
+      case 'verifyRecord': {
+        const recordSource = this.getNodeParameter('recordSource', itemIndex) as string;
+        const expectedOwner = (
+          this.getNodeParameter('expectedOwner', itemIndex, '') as string
+        ).trim();
+
+        let verdict: RecordVerdict;
+        if (recordSource === 'transactionId') {
+          const recordId = this.getNodeParameter('recordId', itemIndex) as string;
+          if (!validateTransactionId(recordId)) {
+            throw new NodeOperationError(this.getNode(), ERROR_MESSAGES.INVALID_TX_ID);
+          }
+          verdict = await verifyTransactionRecord(await getTransaction(this, recordId));
+        } else if (recordSource === 'header') {
+          const headerInput = this.getNodeParameter('recordHeader', itemIndex) as
+            string | IDataObject;
+          let header: IDataObject;
+          try {
+            header = typeof headerInput === 'string' ? JSON.parse(headerInput) : headerInput;
+          } catch {
+            throw new NodeOperationError(this.getNode(), 'Invalid header JSON');
+          }
+          verdict =
+            header.format !== undefined || header.data_root !== undefined
+              ? await verifyTransactionRecord(header as unknown as ArweaveTransaction)
+              : await verifyDataItemRecord(dataItemFromHeader(header as unknown as DataItem));
+        } else {
+          const binaryPropertyName = this.getNodeParameter(
+            'binaryPropertyName',
+            itemIndex,
+          ) as string;
+          const binary = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+          let dataItem: ParsedDataItem;
+          try {
+            dataItem = parseDataItem(binary);
+          } catch (error) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Invalid data item in "${binaryPropertyName}": ${(error as Error).message}`,
+              { itemIndex },
+            );
+          }
+          verdict = await verifyDataItemRecord(dataItem);
+        }
+
+        const ownerAddress = getOwnerAddress(verdict.owner);
+        const nativeAddress = getNativeAddress(verdict.signatureType, verdict.owner);
+        const idMatches = verdict.id === verdict.computedId;
+        // Ethereum addresses compare case-insensitively; the checksum is only mixed case
+        const ownerMatches = expectedOwner
+          ? expectedOwner === ownerAddress ||
+            expectedOwner === nativeAddress ||
+            (expectedOwner.startsWith('0x') &&
+              expectedOwner.toLowerCase() === nativeAddress.toLowerCase())
+          : undefined;
+
+        returnData.push({
+          json: {
+            success: true,
+            valid: verdict.signatureValid && idMatches && ownerMatches !== false,
+            kind: verdict.kind,
+            id: verdict.id,
+            computedId: verdict.computedId,
+            idMatches,
+            signatureValid: verdict.signatureValid,
+            signatureType: verdict.signatureType,
+            owner: ownerAddress,
+            ownerAddress: nativeAddress,
+            expectedOwner: expectedOwner || undefined,
+            ownerMatches,
+          },
+        });
+        break;
+      }
+
       case 'getAPIHealth': {
         const health = await checkGatewayHealth(this);
         
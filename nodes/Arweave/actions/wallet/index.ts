@@ -5,16 +5,33 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import {
   getWalletBalance,
   getLastTransaction,
   getCredentials,
+  getPrice,
+  getTransactionAnchor,
+  createSignedTransaction,
+  submitTransaction,
   queryTransactions,
+  paginateTransactions,
 } from '../../transport/arweaveClient';
-import { winstonToAR, isValidAddress, deriveAddressFromJwk } from '../../utils/helpers';
-import CryptoJS from 'crypto-js';
+import {
+  winstonToAR,
+  parseAmount,
+  isValidAddress,
+  deriveAddressFromJwk,
+  generateJwk,
+} from '../../utils/helpers';
+import { ARWEAVE_CONSTANTS, ERROR_MESSAGES } from '../../constants';
+import type { GraphQLPaginationOptions } from '../../types';
 
 export const walletOperations: INodeProperties[] = [
   {
@@ -49,7 +66,7 @@ export const walletOperations: INodeProperties[] = [
       {
         name: 'Generate Wallet',
         value: 'generateWallet',
-        description: 'Create new JWK wallet (for reference only)',
+        description: 'Create a new RSA-4096 JWK wallet',
         action: 'Generate new wallet',
       },
       {
@@ -58,6 +75,12 @@ export const walletOperations: INodeProperties[] = [
         description: 'Get wallet activity via GraphQL',
         action: 'Get transaction history',
       },
+      {
+        name: 'Transfer',
+        value: 'transfer',
+        description: 'Send AR to another wallet',
+        action: 'Transfer AR',
+      },
     ],
     default: 'getWalletBalance',
   },
@@ -79,6 +102,128 @@ export const walletFields: INodeProperties[] = [
     description: 'Wallet address (leave empty to use configured wallet)',
     placeholder: '1seRanklLU_1VTGkEk7P0xAwMJfA7owA1JHW5KyZKlY',
   },
+  // Include JWK in generated wallet output
+  {
+    displayName: 'Include JWK in Output',
+    name: 'includeJwk',
+    type: 'boolean',
+    default: true,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['generateWallet'],
+      },
+    },
+    description:
+      'Whether to include the private JWK in the JSON output. Disable to keep the key out of execution data and only emit the keyfile.',
+  },
+  // Output keyfile as binary
+  {
+    displayName: 'Output Keyfile as Binary',
+    name: 'outputBinary',
+    type: 'boolean',
+    default: false,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['generateWallet'],
+      },
+    },
+    description: 'Whether to attach the keyfile as binary data for downstream nodes',
+  },
+  // Binary property name for keyfile
+  {
+    displayName: 'Binary Property Name',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['generateWallet'],
+        outputBinary: [true],
+      },
+    },
+    description: 'Name of the binary property to store the keyfile in',
+  },
+  // Transfer recipient
+  {
+    displayName: 'Recipient',
+    name: 'recipient',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['transfer'],
+      },
+    },
+    description: 'Address of the wallet to send AR to',
+    placeholder: '1seRanklLU_1VTGkEk7P0xAwMJfA7owA1JHW5KyZKlY',
+  },
+  // Transfer amount
+  {
+    displayName: 'Amount',
+    name: 'amount',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['transfer'],
+      },
+    },
+    description: 'Amount to send, in the selected unit',
+    placeholder: '0.5',
+  },
+  {
+    displayName: 'Amount Unit',
+    name: 'amountUnit',
+    type: 'options',
+    default: 'ar',
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['transfer'],
+      },
+    },
+    options: [
+      { name: 'AR', value: 'ar' },
+      { name: 'Winston', value: 'winston' },
+    ],
+    description: 'Unit of the amount',
+  },
+  {
+    displayName: 'Batch Mode',
+    name: 'batchMode',
+    type: 'boolean',
+    default: false,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['transfer'],
+      },
+    },
+    description:
+      "Whether to pay every input item's recipient as one batch: the balance is checked against the total before anything is sent, and one result is output per recipient",
+  },
+  // History pagination
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['getTransactionHistory'],
+      },
+    },
+    description:
+      'Whether to follow cursors through the whole history and output one item per transaction, or to return a single page',
+  },
   // History limit
   {
     displayName: 'Limit',
@@ -89,10 +234,63 @@ export const walletFields: INodeProperties[] = [
       show: {
         resource: ['wallet'],
         operation: ['getTransactionHistory'],
+        returnAll: [false],
       },
     },
     description: 'Maximum number of transactions to return',
   },
+  {
+    displayName: 'Max Results',
+    name: 'maxResults',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: 0,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['getTransactionHistory'],
+        returnAll: [true],
+      },
+    },
+    description: 'Stop after this many transactions (0 for no maximum)',
+  },
+  {
+    displayName: 'Page Size',
+    name: 'pageSize',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+      maxValue: ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    },
+    default: ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['getTransactionHistory'],
+        returnAll: [true],
+      },
+    },
+    description: 'Transactions requested per page',
+  },
+  {
+    displayName: 'Page Delay (Ms)',
+    name: 'pageDelay',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: 250,
+    displayOptions: {
+      show: {
+        resource: ['wallet'],
+        operation: ['getTransactionHistory'],
+        returnAll: [true],
+      },
+    },
+    description: 'How long to wait between pages, to stay under gateway rate limits',
+  },
   // Include incoming
   {
     displayName: 'Include Incoming',
@@ -123,6 +321,161 @@ export const walletFields: INodeProperties[] = [
   },
 ];
 
+interface TransferRequest {
+  index: number;
+  recipient: string;
+  quantity: string;
+}
+
+function getTransferRequest(context: IExecuteFunctions, index: number): TransferRequest {
+  const recipient = (context.getNodeParameter('recipient', index) as string).trim();
+  const amount = String(context.getNodeParameter('amount', index)).trim();
+  const amountUnit = context.getNodeParameter('amountUnit', index, 'ar') as 'ar' | 'winston';
+
+  if (!isValidAddress(recipient)) {
+    throw new NodeOperationError(context.getNode(), `Invalid recipient address: ${recipient}`, {
+      itemIndex: index,
+    });
+  }
+  let quantity: string;
+  try {
+    quantity = parseAmount(amount, amountUnit);
+  } catch (error) {
+    throw new NodeOperationError(context.getNode(), (error as Error).message, {
+      itemIndex: index,
+    });
+  }
+
+  return { index, recipient, quantity };
+}
+
+/**
+ * Walk the outgoing and incoming history of a wallet, newest first, one item per transaction
+ */
+async function getFullHistory(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  address: string,
+  directions: { outgoing: boolean; incoming: boolean },
+): Promise<INodeExecutionData[]> {
+  const options: GraphQLPaginationOptions = {
+    maxResults: context.getNodeParameter('maxResults', itemIndex, 0) as number,
+    pageSize: context.getNodeParameter(
+      'pageSize',
+      itemIndex,
+      ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    ) as number,
+    pageDelay: context.getNodeParameter('pageDelay', itemIndex, 0) as number,
+  };
+  const queries = [
+    { direction: 'outgoing', enabled: directions.outgoing, filter: { owners: [address] } },
+    { direction: 'incoming', enabled: directions.incoming, filter: { recipients: [address] } },
+  ];
+
+  const transactions: IDataObject[] = [];
+  for (const { direction, enabled, filter } of queries) {
+    if (!enabled) {
+      continue;
+    }
+    for await (const edge of paginateTransactions(
+      context,
+      { ...filter, sort: 'HEIGHT_DESC' },
+      options,
+    )) {
+      transactions.push({ ...edge.node, cursor: edge.cursor, direction } as unknown as IDataObject);
+    }
+  }
+
+  // Pending transactions have no block yet and sort last
+  const height = (transaction: IDataObject) =>
+    (transaction.block as { height?: number } | null)?.height || 0;
+  transactions.sort((a, b) => height(b) - height(a));
+
+  const limited = options.maxResults ? transactions.slice(0, options.maxResults) : transactions;
+  return limited.map((json) => ({ json, pairedItem: { item: itemIndex } }));
+}
+
+/**
+ * Quote, preflight and send AR transfers from the credential wallet
+ *
+ * Every fee is quoted and the total checked against the balance before the first
+ * transaction is posted. All transactions share one /tx_anchor block anchor, so
+ * posting them back to back does not invalidate the later ones the way chaining
+ * on the wallet's last_tx would.
+ */
+async function executeTransfers(
+  context: IExecuteFunctions,
+  requests: TransferRequest[],
+): Promise<INodeExecutionData[]> {
+  const credentials = await getCredentials(context);
+
+  const rewards: string[] = [];
+  for (const request of requests) {
+    if (request.recipient === credentials.address) {
+      throw new NodeOperationError(context.getNode(), 'Cannot transfer AR to the sending wallet', {
+        itemIndex: request.index,
+      });
+    }
+    rewards.push(await getPrice(context, 0, request.recipient));
+  }
+
+  const balance = await getWalletBalance(context, credentials.address);
+  const required = requests.reduce(
+    (total, request, i) => total + BigInt(request.quantity) + BigInt(rewards[i]),
+    BigInt(0),
+  );
+  if (BigInt(balance) < required) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${ERROR_MESSAGES.INSUFFICIENT_FUNDS}: ${winstonToAR(balance)} AR available, ${winstonToAR(required)} AR required including fees`,
+    );
+  }
+
+  const lastTx = await getTransactionAnchor(context);
+  const results: INodeExecutionData[] = [];
+  for (const [i, request] of requests.entries()) {
+    const base = {
+      from: credentials.address,
+      to: request.recipient,
+      quantity: { winston: request.quantity, ar: winstonToAR(request.quantity) },
+      fee: { winston: rewards[i], ar: winstonToAR(rewards[i]) },
+    };
+    try {
+      const transaction = await createSignedTransaction(context, {
+        tags: [],
+        target: request.recipient,
+        quantity: request.quantity,
+        reward: rewards[i],
+        lastTx,
+      });
+      const submission = await submitTransaction(context, transaction);
+      results.push({
+        json: {
+          success: true,
+          id: transaction.id,
+          status: submission.status,
+          ...base,
+        },
+        pairedItem: { item: request.index },
+      });
+    } catch (error) {
+      if (requests.length === 1) {
+        throw error;
+      }
+      // Keep paying the remaining recipients and report this one as failed
+      results.push({
+        json: {
+          success: false,
+          error: (error as Error).message,
+          ...base,
+        },
+        pairedItem: { item: request.index },
+      });
+    }
+  }
+  return results;
+}
+
 export async function executeWalletOperation(
   this: IExecuteFunctions,
   itemIndex: number,
@@ -197,30 +550,40 @@ export async function executeWalletOperation(
       }
 
       case 'generateWallet': {
-        // Generate random bytes for demonstration
-        // Note: This is a simplified example - real wallet generation requires RSA key pair
-        const randomBytes = CryptoJS.lib.WordArray.random(32);
-        const demoN = CryptoJS.enc.Base64.stringify(CryptoJS.lib.WordArray.random(256));
+        const includeJwk = this.getNodeParameter('includeJwk', itemIndex, true) as boolean;
+        const outputBinary = this.getNodeParameter('outputBinary', itemIndex, false) as boolean;
         
-        returnData.push({
+        if (!includeJwk && !outputBinary) {
+          throw new NodeOperationError(
+            this.getNode(),
+            'Enable "Include JWK in Output" or "Output Keyfile as Binary", otherwise the generated wallet is lost',
+          );
+        }
+        
+        const jwk = await generateJwk();
+        const address = deriveAddressFromJwk(jwk);
+        
+        const result: INodeExecutionData = {
           json: {
             success: true,
-            message: 'Wallet generation reference',
-            note: 'For security, real wallet generation should be done using the official Arweave SDK or wallet software. This is a placeholder.',
-            exampleStructure: {
-              kty: 'RSA',
-              n: '<public_modulus>',
-              e: 'AQAB',
-              d: '<private_exponent>',
-              p: '<prime1>',
-              q: '<prime2>',
-              dp: '<exponent1>',
-              dq: '<exponent2>',
-              qi: '<coefficient>',
-            },
-            recommendation: 'Use ArConnect, Arweave.app, or the Arweave JS SDK to generate a secure wallet.',
+            address,
+            publicKey: jwk.n,
+            ...(includeJwk ? { jwk } : {}),
           },
-        });
+        };
+        
+        if (outputBinary) {
+          const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
+          result.binary = {
+            [binaryPropertyName]: await this.helpers.prepareBinaryData(
+              Buffer.from(JSON.stringify(jwk)),
+              `arweave-keyfile-${address}.json`,
+              'application/json',
+            ),
+          };
+        }
+        
+        returnData.push(result);
         break;
       }
 
@@ -240,6 +603,16 @@ export async function executeWalletOperation(
           );
         }
         
+        if (this.getNodeParameter('returnAll', itemIndex, false) as boolean) {
+          returnData.push(
+            ...(await getFullHistory(this, itemIndex, address, {
+              outgoing: includeOutgoing,
+              incoming: includeIncoming,
+            })),
+          );
+          break;
+        }
+        
         const transactions: unknown[] = [];
         
         // Query outgoing transactions
@@ -292,6 +665,22 @@ export async function executeWalletOperation(
         break;
       }
 
+      case 'transfer': {
+        const batchMode = this.getNodeParameter('batchMode', itemIndex, false) as boolean;
+        if (!batchMode) {
+          returnData.push(...(await executeTransfers(this, [getTransferRequest(this, itemIndex)])));
+          break;
+        }
+
+        // The whole batch is sent while handling the first item
+        if (itemIndex !== 0) {
+          break;
+        }
+        const requests = this.getInputData().map((_, index) => getTransferRequest(this, index));
+        returnData.push(...(await executeTransfers(this, requests)));
+        break;
+      }
+
       default:
         throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
     }
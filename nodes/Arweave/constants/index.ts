@@ -22,9 +22,43 @@ export const ARWEAVE_CONSTANTS = {
   // Default timeout
   DEFAULT_TIMEOUT: 60000,
   
+  // How long a failed gateway is tried after the healthy ones
+  GATEWAY_COOLDOWN: 60000,
+  
+  // Retries of idempotent gateway requests, and their backoff
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY: 1000,
+  RETRY_MAX_DELAY: 30000,
+  
+  // Consecutive failures that open a gateway's circuit, and how long it stays open
+  BREAKER_THRESHOLD: 5,
+  BREAKER_COOLDOWN: 30000,
+  
+  // Default size cap of the confirmed transaction cache (256 MB)
+  CACHE_MAX_SIZE: 256 * 1024 * 1024,
+  
+  // Most transactions a gateway returns per GraphQL page
+  GRAPHQL_PAGE_SIZE: 100,
+  
   // Max data size without bundling (100KB)
   MAX_DATA_SIZE_UNBUNDLED: 102400,
   
+  // RSA key parameters for new wallets
+  WALLET: {
+    MODULUS_LENGTH: 4096,
+    PUBLIC_EXPONENT: 65537,
+  },
+  
+  // Transaction format used for new transactions
+  TX_FORMAT: 2,
+  
+  // Chunking parameters for the transaction data Merkle tree
+  CHUNK: {
+    MAX_SIZE: 256 * 1024,
+    MIN_SIZE: 32 * 1024,
+    NOTE_SIZE: 32,
+  },
+  
   // Confirmation thresholds
   CONFIRMATIONS: {
     LOW: 3,
@@ -32,6 +66,26 @@ export const ARWEAVE_CONSTANTS = {
     HIGH: 50,
   },
   
+  // Blocks a transaction anchor stays valid; a transaction unmined for longer is dropped
+  ANCHOR_DEPTH: 50,
+  
+  // Recent blocks the Block Mined trigger remembers to detect forks
+  REORG_WINDOW: 20,
+  
+  // Transaction triggers: blocks re-read below the watermark, IDs remembered, pages per poll
+  TRIGGER_LOOKBACK: 10,
+  TRIGGER_SEEN_IDS: 1000,
+  TRIGGER_MAX_PAGES: 10,
+  
+  // ANS-104 data item limits
+  DATA_ITEM: {
+    MAX_TAGS: 128,
+    MAX_TAG_NAME_BYTES: 1024,
+    MAX_TAG_VALUE_BYTES: 3072,
+    TARGET_LENGTH: 32,
+    ANCHOR_LENGTH: 32,
+  },
+  
   // API endpoints
   ENDPOINTS: {
     INFO: '/info',
@@ -41,11 +95,55 @@ export const ARWEAVE_CONSTANTS = {
     BLOCK_HEIGHT: '/block/height',
     BLOCK_HASH: '/block/hash',
     TX: '/tx',
+    TX_ANCHOR: '/tx_anchor',
+    CHUNK: '/chunk',
     WALLET: '/wallet',
     GRAPHQL: '/graphql',
   },
 } as const;
 
+// Tags identifying an L1 transaction as an ANS-104 bundle
+export const BUNDLE_TAGS = [
+  { name: 'Bundle-Format', value: 'binary' },
+  { name: 'Bundle-Version', value: '2.0.0' },
+] as const;
+
+// ANS-104 signature types and their signature/owner lengths in bytes
+export const SIGNATURE_TYPES = {
+  ARWEAVE: { type: 1, signatureLength: 512, ownerLength: 512, name: 'arweave' },
+  SOLANA: { type: 2, signatureLength: 64, ownerLength: 32, name: 'solana' },
+  ETHEREUM: { type: 3, signatureLength: 65, ownerLength: 65, name: 'ethereum' },
+} as const;
+
+// Bundler services that accept signed ANS-104 data items
+export const BUNDLERS = {
+  IRYS: { name: 'irys', displayName: 'Irys', defaultEndpoint: 'https://uploader.irys.xyz' },
+  TURBO: { name: 'turbo', displayName: 'Turbo', defaultEndpoint: 'https://upload.ardrive.io' },
+  ARIO: { name: 'ario', displayName: 'ar.io', defaultEndpoint: '' },
+} as const;
+
+// GraphQL dialects and what each can filter on
+export const GRAPHQL_DIALECTS = {
+  arweave: {
+    name: 'arweave',
+    tagMatch: false,
+    ingestedAt: false,
+    blockTimestamp: false,
+  },
+  goldsky: {
+    name: 'goldsky',
+    tagMatch: false,
+    ingestedAt: false,
+    blockTimestamp: true,
+  },
+  ario: {
+    name: 'ario',
+    tagMatch: true,
+    ingestedAt: true,
+    blockTimestamp: false,
+  },
+} as const;
+
 // License Notice
 export const VELOCITY_BPA_LICENSE_NOTICE = `[Velocity BPA Licensing Notice]
 
@@ -63,7 +161,7 @@ export const NODE_DISPLAY = {
   TRIGGER_DESCRIPTION: 'Triggers on new Arweave transactions or blocks',
   ICON: 'file:arweave.svg',
   GROUP: ['transform'],
-  VERSION: 1,
+  VERSION: 2,
   SUBTITLE: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
 } as const;
 
@@ -100,65 +198,6 @@ export const CONTENT_TYPES = {
 
 // GraphQL Queries
 export const GRAPHQL_QUERIES = {
-  TRANSACTIONS: `
-    query Transactions($first: Int, $after: String, $tags: [TagFilter!], $owners: [String!], $recipients: [String!], $block: BlockFilter, $sort: SortOrder) {
-      transactions(
-        first: $first
-        after: $after
-        tags: $tags
-        owners: $owners
-        recipients: $recipients
-        block: $block
-        sort: $sort
-      ) {
-        pageInfo {
-          hasNextPage
-        }
-        edges {
-          cursor
-          node {
-            id
-            anchor
-            signature
-            recipient
-            owner {
-              address
-              key
-            }
-            fee {
-              winston
-              ar
-            }
-            quantity {
-              winston
-              ar
-            }
-            data {
-              size
-              type
-            }
-            tags {
-              name
-              value
-            }
-            block {
-              id
-              timestamp
-              height
-              previous
-            }
-            parent {
-              id
-            }
-            bundledIn {
-              id
-            }
-          }
-        }
-      }
-    }
-  `,
-  
   BLOCKS: `
     query Blocks($first: Int, $after: String, $height: BlockFilter, $sort: SortOrder) {
       blocks(
@@ -183,6 +222,32 @@ export const GRAPHQL_QUERIES = {
     }
   `,
   
+  // Reads the schema details that tell the dialects apart
+  DIALECT: `
+    query Dialect {
+      __schema {
+        queryType {
+          fields {
+            name
+            args {
+              name
+            }
+          }
+        }
+      }
+      tagFilter: __type(name: "TagFilter") {
+        inputFields {
+          name
+        }
+      }
+      blockFilter: __type(name: "BlockFilter") {
+        inputFields {
+          name
+        }
+      }
+    }
+  `,
+  
   TRANSACTION_BY_ID: `
     query Transaction($id: ID!) {
       transaction(id: $id) {
@@ -233,4 +298,6 @@ export const ERROR_MESSAGES = {
   DATA_TOO_LARGE: 'Data size exceeds maximum limit',
   INVALID_TAGS: 'Invalid tag format',
   SIGNING_ERROR: 'Failed to sign transaction',
+  NO_WALLET: 'This operation signs with a wallet - set a Wallet JWK on a signing credential',
+  READ_ONLY: 'This operation signs with a wallet - use a signing credential, not a read-only one',
 } as const;
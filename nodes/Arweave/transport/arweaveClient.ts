@@ -5,7 +5,15 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, IHttpRequestMethods, IHttpRequestOptions, IDataObject } from 'n8n-workflow';
+import type {
+  ICredentialDataDecryptedObject,
+  ICredentialsDecrypted,
+  ICredentialTestFunctions,
+  IExecuteFunctions,
+  IHttpRequestMethods,
+  IDataObject,
+  INodeCredentialTestResult,
+} from 'n8n-workflow';
 import { NodeApiError, NodeOperationError } from 'n8n-workflow';
 import type {
   ArweaveCredentials,
@@ -14,11 +22,53 @@ import type {
   ArweaveTransactionStatus,
   ArweaveBlock,
   GraphQLTransactionsResponse,
+  GraphQLEdge,
+  GraphQLPaginationOptions,
+  GraphqlDialect,
+  QueryOptions,
+  TransactionField,
   GraphQLBlocksResponse,
   ArweaveJWK,
+  BundlerProviderName,
+  DataItemSigner,
+  TransactionAttributes,
+  TransactionChunk,
 } from '../types';
-import { parseJwk, deriveAddressFromJwk } from '../utils/helpers';
-import { ARWEAVE_CONSTANTS, GRAPHQL_QUERIES, VELOCITY_BPA_LICENSE_NOTICE } from '../constants';
+import {
+  parseJwk,
+  deriveAddressFromJwk,
+  signMessage,
+  sleep,
+  base64UrlToBuffer,
+  bufferToBase64Url,
+} from '../utils/helpers';
+import {
+  createTransaction,
+  signTransaction,
+  signatureToId,
+  verifyTransactionSignature,
+} from '../utils/transaction';
+import { computeDataRoot } from '../utils/merkle';
+import type { GraphqlSchemaInfo } from '../utils/graphql';
+import {
+  buildTransactionsQuery,
+  detectGraphqlDialect,
+  hasPageBounds,
+  matchesValueBounds,
+} from '../utils/graphql';
+import type { GatewayContext, GatewayRequestOptions } from './gateways';
+import { gatewayRequest, getGatewayUrls, getGraphqlUrls, getServedGateway } from './gateways';
+import type { CacheEntryKind } from './transactionCache';
+import { getTransactionCache, readCacheEntry, writeCacheEntry } from './transactionCache';
+import { createArweaveSigner, createEthereumSigner, createSolanaSigner } from '../utils/ans104';
+import {
+  ARWEAVE_CONSTANTS,
+  ERROR_MESSAGES,
+  GRAPHQL_DIALECTS,
+  GRAPHQL_QUERIES,
+  SIGNATURE_TYPES,
+  VELOCITY_BPA_LICENSE_NOTICE,
+} from '../constants';
 
 // License notice logged once per node load
 let licenseNoticeLogged = false;
@@ -31,11 +81,56 @@ function logLicenseNotice(): void {
 }
 
 /**
- * Get credentials from node context
+ * Apply defaults to raw credential data
+ *
+ * The credential stores the gateway as baseUrl, the name saved credentials have always used.
  */
-export async function getCredentials(
-  context: IExecuteFunctions,
-): Promise<ArweaveCredentials & { jwk: ArweaveJWK; address: string }> {
+export function normalizeCredentials(data: ICredentialDataDecryptedObject): ArweaveCredentials {
+  const gatewayUrl = ((data.baseUrl as string) || ARWEAVE_CONSTANTS.DEFAULT_GATEWAY)
+    .trim()
+    .replace(/\/+$/, '');
+  const walletJwk =
+    typeof data.walletJwk === 'object' ? JSON.stringify(data.walletJwk) : data.walletJwk;
+  const fallbackGateways = ((data.fallbackGateways as string) || '')
+    .split(/[\s,]+/)
+    .map((url) => url.replace(/\/+$/, ''))
+    .filter((url) => url && url !== gatewayUrl);
+
+  return {
+    access: (data.access as 'signing' | 'readOnly') || 'signing',
+    walletJwk: (walletJwk as string | undefined) || '',
+    gatewayUrl,
+    fallbackGateways,
+    gatewayMode: (data.gatewayMode as 'failover' | 'race') || 'failover',
+    graphqlEndpoint: (data.graphqlEndpoint as string) || `${gatewayUrl}/graphql`,
+    graphqlDialect: (data.graphqlDialect as ArweaveCredentials['graphqlDialect']) || 'auto',
+    bundlrEndpoint: data.bundlrEndpoint as string | undefined,
+    bundlerProvider: (data.bundlerProvider as BundlerProviderName) || 'irys',
+    network: (data.network as 'mainnet' | 'testnet') || 'mainnet',
+    timeout: (data.timeout as number) || ARWEAVE_CONSTANTS.DEFAULT_TIMEOUT,
+    apiKey: (data.apiKey as string) || undefined,
+  };
+}
+
+/**
+ * Get the Authorization header for gateways that require an API key
+ */
+export function getAuthHeaders(
+  credentials: Pick<ArweaveCredentials, 'apiKey'>,
+): Record<string, string> {
+  return credentials.apiKey ? { Authorization: `Bearer ${credentials.apiKey}` } : {};
+}
+
+function hasWallet(credentials: ArweaveCredentials): boolean {
+  return (
+    credentials.access !== 'readOnly' && !!credentials.walletJwk && credentials.walletJwk !== '{}'
+  );
+}
+
+/**
+ * Get gateway credentials from node context, without requiring a wallet
+ */
+export async function getGatewayCredentials(context: GatewayContext): Promise<ArweaveCredentials> {
   logLicenseNotice();
   
   const credentials = await context.getCredentials('arweaveApi');
@@ -44,41 +139,113 @@ export async function getCredentials(
     throw new NodeOperationError(context.getNode(), 'No credentials provided');
   }
   
-  const walletJwk = credentials.walletJwk as string;
-  const jwk = parseJwk(walletJwk);
-  const address = deriveAddressFromJwk(jwk);
+  return normalizeCredentials(credentials);
+}
+
+/**
+ * Get credentials from node context, including the wallet used for signing
+ */
+export async function getCredentials(
+  context: IExecuteFunctions,
+): Promise<ArweaveCredentials & { jwk: ArweaveJWK; address: string }> {
+  const credentials = await getGatewayCredentials(context);
   
-  return {
-    walletJwk,
-    gatewayUrl: (credentials.gatewayUrl as string) || ARWEAVE_CONSTANTS.DEFAULT_GATEWAY,
-    graphqlEndpoint: (credentials.graphqlEndpoint as string) || ARWEAVE_CONSTANTS.DEFAULT_GRAPHQL,
-    bundlrEndpoint: credentials.bundlrEndpoint as string | undefined,
-    network: (credentials.network as 'mainnet' | 'testnet') || 'mainnet',
-    timeout: (credentials.timeout as number) || ARWEAVE_CONSTANTS.DEFAULT_TIMEOUT,
-    jwk,
-    address,
-  };
+  if (!hasWallet(credentials)) {
+    throw new NodeOperationError(context.getNode(), ERROR_MESSAGES.NO_WALLET);
+  }
+  
+  let jwk: ArweaveJWK;
+  try {
+    jwk = parseJwk(credentials.walletJwk);
+  } catch (error) {
+    throw new NodeOperationError(context.getNode(), (error as Error).message);
+  }
+  
+  return { ...credentials, jwk, address: deriveAddressFromJwk(jwk) };
+}
+
+/**
+ * Test the gateway and wallet of an Arweave API credential
+ *
+ * Checks that /info answers for the configured network and that the JWK is a usable
+ * RSA private key, and reports the wallet address derived from it.
+ */
+export async function testArweaveCredentials(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+  const credentials = normalizeCredentials(credential.data ?? {});
+
+  let info: ArweaveNetworkInfo;
+  try {
+    info = (await this.helpers.request({
+      method: 'GET',
+      uri: `${credentials.gatewayUrl}${ARWEAVE_CONSTANTS.ENDPOINTS.INFO}`,
+      headers: getAuthHeaders(credentials),
+      json: true,
+      timeout: credentials.timeout,
+    })) as ArweaveNetworkInfo;
+  } catch (error) {
+    return {
+      status: 'Error',
+      message: `Could not reach ${credentials.gatewayUrl}: ${(error as Error).message}`,
+    };
+  }
+
+  // Mainnet gateways report arweave.N.1; test networks and ArLocal use other names
+  const isMainnet = /^arweave\.N\./.test(info.network ?? '');
+  if (isMainnet !== (credentials.network === 'mainnet')) {
+    return {
+      status: 'Error',
+      message: `The gateway serves ${info.network}, which is not ${credentials.network}`,
+    };
+  }
+
+  const gateway = `Connected to ${info.network} at height ${info.height}`;
+  if (!hasWallet(credentials)) {
+    return { status: 'OK', message: `${gateway} (read-only)` };
+  }
+
+  try {
+    const jwk = parseJwk(credentials.walletJwk);
+    // Signing fails unless the JWK holds a complete RSA private key
+    await signMessage(jwk, 'arweave-credential-test');
+    return { status: 'OK', message: `${gateway}; wallet address ${deriveAddressFromJwk(jwk)}` };
+  } catch (error) {
+    return {
+      status: 'Error',
+      message: `${ERROR_MESSAGES.INVALID_JWK}: ${(error as Error).message}`,
+    };
+  }
 }
 
+// Lookups of a transaction header or its data, which a gateway may not have indexed yet.
+// Sub-resources such as /status or /data_root answer 404 for data items and are not retried.
+const RECENT_DATA_PATH = /^\/(tx\/|raw\/|unconfirmed_tx\/)?[A-Za-z0-9_-]{43}(\/data)?$/;
+
+// Signed transactions and chunks are identified by their content, so posting one again is safe
+const REPOSTABLE_PATH = /^\/(tx|chunk)$/;
+
 /**
  * Make HTTP request to Arweave gateway
  */
 export async function arweaveApiRequest(
-  context: IExecuteFunctions,
+  context: GatewayContext,
   method: IHttpRequestMethods,
   endpoint: string,
   body?: unknown,
   qs?: IDataObject,
   headers?: Record<string, string>,
 ): Promise<unknown> {
-  const credentials = await getCredentials(context);
+  const credentials = await getGatewayCredentials(context);
   
-  const options: IHttpRequestOptions = {
+  const options: GatewayRequestOptions = {
     method,
-    url: `${credentials.gatewayUrl}${endpoint}`,
+    path: endpoint,
     headers: {
       'Content-Type': 'application/json',
       Accept: 'application/json',
+      ...getAuthHeaders(credentials),
       ...headers,
     },
     timeout: credentials.timeout,
@@ -94,8 +261,12 @@ export async function arweaveApiRequest(
   }
   
   try {
-    const response = await context.helpers.httpRequest(options);
-    return response;
+    return await gatewayRequest(context, getGatewayUrls(credentials), options, {
+      read: method === 'GET',
+      race: credentials.gatewayMode === 'race',
+      retryNotFound: RECENT_DATA_PATH.test(endpoint),
+      idempotent: method === 'GET' || REPOSTABLE_PATH.test(endpoint),
+    });
   } catch (error) {
     throw new NodeApiError(context.getNode(), error as { message?: string });
   }
@@ -109,14 +280,14 @@ export async function graphqlRequest<T = unknown>(
   query: string,
   variables?: Record<string, unknown>,
 ): Promise<T> {
-  const credentials = await getCredentials(context);
+  const credentials = await getGatewayCredentials(context);
   
-  const options: IHttpRequestOptions = {
+  const options: GatewayRequestOptions = {
     method: 'POST',
-    url: credentials.graphqlEndpoint || `${credentials.gatewayUrl}/graphql`,
     headers: {
       'Content-Type': 'application/json',
       Accept: 'application/json',
+      ...getAuthHeaders(credentials),
     },
     body: {
       query,
@@ -126,11 +297,16 @@ export async function graphqlRequest<T = unknown>(
   };
   
   try {
-    const response = (await context.helpers.httpRequest(options)) as { data?: T; errors?: { message: string }[] };
-    
-    if (response.errors && response.errors.length > 0) {
-      throw new Error(response.errors.map((e) => e.message).join(', '));
-    }
+    const response = (await gatewayRequest(context, getGraphqlUrls(credentials), options, {
+      read: true,
+      race: credentials.gatewayMode === 'race',
+      validate: (answer) => {
+        const { errors } = answer as { errors?: { message: string }[] };
+        if (errors && errors.length > 0) {
+          throw new Error(errors.map((e) => e.message).join(', '));
+        }
+      },
+    })) as { data?: T };
     
     return response.data as T;
   } catch (error) {
@@ -145,6 +321,101 @@ export async function getNetworkInfo(context: IExecuteFunctions): Promise<Arweav
   return (await arweaveApiRequest(context, 'GET', '/info')) as ArweaveNetworkInfo;
 }
 
+/**
+ * Whether a transaction has enough confirmations to be cached
+ *
+ * Bundled data items have no /status, so their block is looked up through GraphQL.
+ */
+async function hasConfirmations(
+  context: IExecuteFunctions,
+  txId: string,
+  minConfirmations: number,
+): Promise<boolean> {
+  try {
+    const status = await getTransactionStatus(context, txId);
+    // Pending transactions answer 202 with a plain text body
+    if (typeof status === 'object' && status !== null) {
+      return status.number_of_confirmations >= minConfirmations;
+    }
+  } catch {
+    // Not a layer 1 transaction
+  }
+  try {
+    const [result, info] = await Promise.all([
+      graphqlRequest<{ transaction: { block: { height: number } | null } | null }>(
+        context,
+        GRAPHQL_QUERIES.TRANSACTION_BY_ID,
+        { id: txId },
+      ),
+      getNetworkInfo(context),
+    ]);
+    const height = result?.transaction?.block?.height;
+    return height !== undefined && info.height - height + 1 >= minConfirmations;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether cached bytes are the signed header or data of a transaction
+ *
+ * Data is checked against the data_root of the verified header, so format 1
+ * transactions and bundled data items are never cached.
+ */
+async function isAuthenticEntry(
+  context: IExecuteFunctions,
+  txId: string,
+  kind: CacheEntryKind,
+  content: Buffer,
+): Promise<boolean> {
+  try {
+    if (kind === 'header') {
+      const transaction = JSON.parse(content.toString()) as ArweaveTransaction;
+      return (
+        transaction.id === txId &&
+        signatureToId(base64UrlToBuffer(transaction.signature)) === txId &&
+        (await verifyTransactionSignature(transaction))
+      );
+    }
+    const { data_root: dataRoot } = await getTransaction(context, txId);
+    return !!dataRoot && bufferToBase64Url(computeDataRoot(content)) === dataRoot;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serve a transaction read from the cache when the node enabled it
+ *
+ * Misses are fetched and stored once the transaction has enough confirmations. Entries
+ * are verified before they are stored and again before they are served, as the cache
+ * directory may be writable by others; an entry that fails is treated as a miss.
+ */
+async function readThroughCache<T>(
+  context: IExecuteFunctions,
+  txId: string,
+  kind: CacheEntryKind,
+  fetch: () => Promise<T>,
+  codec: { encode: (value: T) => Buffer; decode: (content: Buffer) => T },
+): Promise<T> {
+  const cache = getTransactionCache(context);
+  if (!cache) {
+    return fetch();
+  }
+  const cached = await readCacheEntry(cache, txId, kind);
+  if (cached && (await isAuthenticEntry(context, txId, kind, cached))) {
+    return codec.decode(cached);
+  }
+  const value = await fetch();
+  if (await hasConfirmations(context, txId, cache.minConfirmations)) {
+    const content = codec.encode(value);
+    if (await isAuthenticEntry(context, txId, kind, content)) {
+      await writeCacheEntry(cache, txId, kind, content);
+    }
+  }
+  return value;
+}
+
 /**
  * Get transaction by ID
  */
@@ -152,14 +423,23 @@ export async function getTransaction(
   context: IExecuteFunctions,
   txId: string,
 ): Promise<ArweaveTransaction> {
-  return (await arweaveApiRequest(context, 'GET', `/tx/${txId}`)) as ArweaveTransaction;
+  return readThroughCache(
+    context,
+    txId,
+    'header',
+    async () => (await arweaveApiRequest(context, 'GET', `/tx/${txId}`)) as ArweaveTransaction,
+    {
+      encode: (transaction) => Buffer.from(JSON.stringify(transaction)),
+      decode: (content) => JSON.parse(content.toString()) as ArweaveTransaction,
+    },
+  );
 }
 
 /**
  * Get transaction status
  */
 export async function getTransactionStatus(
-  context: IExecuteFunctions,
+  context: GatewayContext,
   txId: string,
 ): Promise<ArweaveTransactionStatus> {
   return (await arweaveApiRequest(context, 'GET', `/tx/${txId}/status`)) as ArweaveTransactionStatus;
@@ -173,22 +453,35 @@ export async function getTransactionData(
   txId: string,
   decode = false,
 ): Promise<string | Buffer> {
-  const credentials = await getCredentials(context);
-  
-  const options: IHttpRequestOptions = {
-    method: 'GET',
-    url: `${credentials.gatewayUrl}/${txId}`,
-    returnFullResponse: false,
-    encoding: decode ? 'text' : 'arraybuffer',
-    timeout: credentials.timeout,
+  const fetch = async () => {
+    const credentials = await getGatewayCredentials(context);
+    
+    const options: GatewayRequestOptions = {
+      method: 'GET',
+      path: `/${txId}`,
+      headers: getAuthHeaders(credentials),
+      returnFullResponse: false,
+      encoding: decode ? 'text' : 'arraybuffer',
+      timeout: credentials.timeout,
+    };
+    
+    try {
+      // Data bodies can be large, so they fail over but are never raced
+      const response = await gatewayRequest(context, getGatewayUrls(credentials), options, {
+        read: true,
+        retryNotFound: true,
+      });
+      return response as string | Buffer;
+    } catch (error) {
+      throw new NodeApiError(context.getNode(), error as { message?: string });
+    }
   };
   
-  try {
-    const response = await context.helpers.httpRequest(options);
-    return response as string | Buffer;
-  } catch (error) {
-    throw new NodeApiError(context.getNode(), error as { message?: string });
-  }
+  // Text and binary reads share the cached bytes
+  return readThroughCache(context, txId, 'data', fetch, {
+    encode: (data) => (typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data)),
+    decode: (content) => (decode ? content.toString() : content),
+  });
 }
 
 /**
@@ -202,6 +495,13 @@ export async function getTransactionField(
   return (await arweaveApiRequest(context, 'GET', `/tx/${txId}/${field}`)) as string;
 }
 
+/**
+ * Get the data_root a transaction was signed over
+ */
+export async function getDataRoot(context: IExecuteFunctions, txId: string): Promise<string> {
+  return getTransactionField(context, txId, 'data_root');
+}
+
 /**
  * Submit transaction
  */
@@ -213,6 +513,77 @@ export async function submitTransaction(
   return { id: transaction.id, status: response as string };
 }
 
+/**
+ * Get anchor for a new transaction
+ */
+export async function getTransactionAnchor(context: IExecuteFunctions): Promise<string> {
+  return (await arweaveApiRequest(context, 'GET', ARWEAVE_CONSTANTS.ENDPOINTS.TX_ANCHOR)) as string;
+}
+
+/**
+ * Create and sign a transaction with the credential wallet, using the current anchor and
+ * price unless a reward or anchor is given
+ */
+export async function createSignedTransaction(
+  context: IExecuteFunctions,
+  attributes: Omit<TransactionAttributes, 'reward' | 'lastTx'> &
+    Partial<Pick<TransactionAttributes, 'reward' | 'lastTx'>>,
+): Promise<ArweaveTransaction> {
+  const credentials = await getCredentials(context);
+  const lastTx = attributes.lastTx || (await getTransactionAnchor(context));
+  const dataSize = attributes.chunks ? attributes.chunks.dataSize : attributes.data?.byteLength || 0;
+  const reward =
+    attributes.reward || (await getPrice(context, dataSize, attributes.target || undefined));
+  
+  const transaction = createTransaction(credentials.jwk, { ...attributes, reward, lastTx });
+  return signTransaction(credentials.jwk, transaction);
+}
+
+/**
+ * Get the ANS-104 signer for a signer type ('arweave', 'ethereum' or 'solana')
+ * from the keys stored in the credentials
+ */
+export async function getDataItemSigner(
+  context: IExecuteFunctions,
+  signerType: string,
+): Promise<DataItemSigner> {
+  if (signerType === SIGNATURE_TYPES.ARWEAVE.name) {
+    const credentials = await getCredentials(context);
+    return createArweaveSigner(credentials.jwk);
+  }
+
+  const credentials = await context.getCredentials('arweaveApi');
+  // Hiding the key fields of a read-only credential does not remove keys saved earlier
+  if (normalizeCredentials(credentials).access === 'readOnly') {
+    throw new NodeOperationError(context.getNode(), ERROR_MESSAGES.READ_ONLY);
+  }
+  try {
+    switch (signerType) {
+      case SIGNATURE_TYPES.ETHEREUM.name:
+        if (!credentials.ethereumPrivateKey) {
+          throw new Error('No Ethereum private key is set in the credentials');
+        }
+        return createEthereumSigner(credentials.ethereumPrivateKey as string);
+      case SIGNATURE_TYPES.SOLANA.name:
+        if (!credentials.solanaSecretKey) {
+          throw new Error('No Solana secret key is set in the credentials');
+        }
+        return createSolanaSigner(credentials.solanaSecretKey as string);
+      default:
+        throw new Error(`Unsupported signer type: ${signerType}`);
+    }
+  } catch (error) {
+    throw new NodeOperationError(context.getNode(), (error as Error).message);
+  }
+}
+
+/**
+ * Upload a single data chunk with its Merkle proof
+ */
+export async function postChunk(context: IExecuteFunctions, chunk: TransactionChunk): Promise<unknown> {
+  return arweaveApiRequest(context, 'POST', ARWEAVE_CONSTANTS.ENDPOINTS.CHUNK, chunk);
+}
+
 /**
  * Get pending transactions
  */
@@ -289,18 +660,110 @@ export async function getPeers(context: IExecuteFunctions): Promise<string[]> {
   return (await arweaveApiRequest(context, 'GET', '/peers')) as string[];
 }
 
+// Dialects detected per GraphQL endpoint; a schema does not change while n8n runs
+const detectedDialects = new Map<string, GraphqlDialect>();
+
+/**
+ * Get the GraphQL dialect of the credential's endpoint
+ *
+ * Auto-detection introspects the schema and remembers the dialect of the endpoint that
+ * answered, which may be a fallback gateway. When introspection fails the original
+ * arweave.net schema is assumed for this request only, so a timeout or outage does not
+ * decide the dialect for the rest of the process.
+ */
+export async function getGraphqlDialect(context: IExecuteFunctions): Promise<GraphqlDialect> {
+  const credentials = await getGatewayCredentials(context);
+  if (credentials.graphqlDialect !== 'auto') {
+    return GRAPHQL_DIALECTS[credentials.graphqlDialect];
+  }
+  
+  const detected = detectedDialects.get(credentials.graphqlEndpoint as string);
+  if (detected) {
+    return detected;
+  }
+  try {
+    const schema = await graphqlRequest<GraphqlSchemaInfo>(context, GRAPHQL_QUERIES.DIALECT);
+    const dialect = detectGraphqlDialect(schema);
+    detectedDialects.set(
+      getServedGateway(context) ?? (credentials.graphqlEndpoint as string),
+      dialect,
+    );
+    return dialect;
+  } catch {
+    return GRAPHQL_DIALECTS.arweave;
+  }
+}
+
+/**
+ * Forget the dialects detected so far
+ */
+export function resetGraphqlDialects(): void {
+  detectedDialects.clear();
+}
+
 /**
  * Query transactions via GraphQL
+ *
+ * Only the given node fields are selected, and filters are adapted to the endpoint's
+ * dialect. The page is returned as the gateway sent it, so callers apply the bounds
+ * the endpoint cannot with matchesValueBounds.
  */
 export async function queryTransactions(
   context: IExecuteFunctions,
-  variables: Record<string, unknown>,
+  query: QueryOptions,
+  fields?: TransactionField[],
 ): Promise<GraphQLTransactionsResponse> {
-  return graphqlRequest<GraphQLTransactionsResponse>(
-    context,
-    GRAPHQL_QUERIES.TRANSACTIONS,
-    variables,
+  const dialect = await getGraphqlDialect(context);
+  const { query: document, variables } = buildTransactionsQuery(query, fields, dialect);
+  return graphqlRequest<GraphQLTransactionsResponse>(context, document, variables);
+}
+
+/**
+ * Query transactions via GraphQL, following cursors until hasNextPage is false
+ *
+ * Starts after query.after when set and skips transactions outside the amount bounds.
+ * Pages are requested lazily, so a caller that stops iterating stops the queries.
+ */
+export async function* paginateTransactions(
+  context: IExecuteFunctions,
+  query: QueryOptions,
+  options: GraphQLPaginationOptions = {},
+  fields?: TransactionField[],
+): AsyncGenerator<GraphQLEdge> {
+  const maxResults = options.maxResults ?? 0;
+  const pageSize = Math.min(
+    options.pageSize || ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
+    ARWEAVE_CONSTANTS.GRAPHQL_PAGE_SIZE,
   );
+  // A page with filtered transactions may yield less than it holds, so it is never shrunk
+  const dialect = await getGraphqlDialect(context);
+  const filtered = hasPageBounds(query, dialect);
+  let after = query.after;
+  let returned = 0;
+  
+  for (;;) {
+    const first =
+      maxResults > 0 && !filtered ? Math.min(pageSize, maxResults - returned) : pageSize;
+    const { transactions } = await queryTransactions(context, { ...query, first, after }, fields);
+    
+    for (const edge of transactions.edges) {
+      if (!matchesValueBounds(edge.node, query, dialect)) {
+        continue;
+      }
+      yield edge;
+      if (++returned === maxResults) {
+        return;
+      }
+    }
+    if (!transactions.pageInfo.hasNextPage || transactions.edges.length === 0) {
+      return;
+    }
+    
+    after = transactions.edges[transactions.edges.length - 1].cursor;
+    if (options.pageDelay) {
+      await sleep(options.pageDelay);
+    }
+  }
 }
 
 /**
@@ -315,24 +778,46 @@ export async function queryBlocks(
 
 /**
  * Get raw data as Buffer
+ *
+ * Gateways resolve /{id} through path manifests. With raw set the transaction's own
+ * bytes are read from /raw/{id}, bypassing the cache, as integrity checks need them.
  */
-export async function getRawData(context: IExecuteFunctions, txId: string): Promise<Buffer> {
-  const credentials = await getCredentials(context);
-  
-  const options: IHttpRequestOptions = {
-    method: 'GET',
-    url: `${credentials.gatewayUrl}/${txId}`,
-    returnFullResponse: false,
-    encoding: 'arraybuffer',
-    timeout: credentials.timeout,
+export async function getRawData(
+  context: IExecuteFunctions,
+  txId: string,
+  raw = false,
+): Promise<Buffer> {
+  const fetch = async () => {
+    const credentials = await getGatewayCredentials(context);
+    
+    const options: GatewayRequestOptions = {
+      method: 'GET',
+      path: raw ? `/raw/${txId}` : `/${txId}`,
+      headers: getAuthHeaders(credentials),
+      returnFullResponse: false,
+      encoding: 'arraybuffer',
+      timeout: credentials.timeout,
+    };
+    
+    try {
+      // Data bodies can be large, so they fail over but are never raced
+      const response = await gatewayRequest(context, getGatewayUrls(credentials), options, {
+        read: true,
+        retryNotFound: true,
+      });
+      return Buffer.from(response as ArrayBuffer);
+    } catch (error) {
+      throw new NodeApiError(context.getNode(), error as { message?: string });
+    }
   };
   
-  try {
-    const response = await context.helpers.httpRequest(options);
-    return Buffer.from(response as ArrayBuffer);
-  } catch (error) {
-    throw new NodeApiError(context.getNode(), error as { message?: string });
+  if (raw) {
+    return fetch();
   }
+  return readThroughCache<Buffer>(context, txId, 'data', fetch, {
+    encode: (data) => data,
+    decode: (content) => content,
+  });
 }
 
 /**
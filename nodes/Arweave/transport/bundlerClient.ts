@@ -0,0 +1,352 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { BundlerProviderName, BundlerReceipt } from '../types';
+import { BUNDLERS, SIGNATURE_TYPES } from '../constants';
+import { deepHash } from '../utils/deepHash';
+import { signMessage } from '../utils/helpers';
+import { getCredentials, getGatewayCredentials } from './arweaveClient';
+
+/**
+ * Adapter describing how to talk to one bundler service
+ */
+export interface BundlerProvider {
+  name: BundlerProviderName;
+  displayName: string;
+  defaultEndpoint: string;
+  // Path data items are posted to as application/octet-stream
+  uploadPath: string;
+  // Price quote for a number of bytes, or null when the provider does not quote prices
+  price: {
+    url: (endpoint: string, bytes: number) => string;
+    parse: (response: unknown) => { amount: string; unit: string };
+  } | null;
+  // Account service holding prepaid upload balances, or null when uploads are not paid for
+  account: {
+    url: (endpoint: string) => string;
+    balancePath: (address: string) => string;
+    parseBalance: (response: unknown) => { amount: string; unit: string };
+    // Exposes the deposit address funding transfers are sent to
+    infoPath: string;
+    // Credits a posted funding transfer to the sender's balance
+    fundPath: string;
+    withdrawal: { noncePath: (address: string) => string; path: string } | null;
+  } | null;
+}
+
+function toNumber(value: unknown): number | null {
+  return value === undefined || value === null ? null : Number(value);
+}
+
+function toDataObject(response: unknown): IDataObject {
+  return typeof response === 'object' && response !== null
+    ? (response as IDataObject)
+    : { message: String(response) };
+}
+
+/**
+ * Turbo keeps payments on a separate service next to the upload service
+ */
+function turboPaymentEndpoint(endpoint: string): string {
+  return endpoint.replace('//upload.', '//payment.');
+}
+
+export const BUNDLER_PROVIDERS: Record<BundlerProviderName, BundlerProvider> = {
+  irys: {
+    ...BUNDLERS.IRYS,
+    uploadPath: '/tx/arweave',
+    price: {
+      url: (endpoint, bytes) => `${endpoint}/price/arweave/${bytes}`,
+      parse: (response) => ({ amount: String(response), unit: 'winston' }),
+    },
+    account: {
+      url: (endpoint) => endpoint,
+      balancePath: (address) => `/account/balance/arweave?address=${address}`,
+      parseBalance: (response) => ({
+        amount: String((response as IDataObject).balance),
+        unit: 'winston',
+      }),
+      infoPath: '/info',
+      fundPath: '/account/balance/arweave',
+      withdrawal: {
+        noncePath: (address) => `/account/withdrawals/arweave?address=${address}`,
+        path: '/account/withdraw',
+      },
+    },
+  },
+  turbo: {
+    ...BUNDLERS.TURBO,
+    uploadPath: '/v1/tx',
+    price: {
+      url: (endpoint, bytes) => `${turboPaymentEndpoint(endpoint)}/v1/price/bytes/${bytes}`,
+      parse: (response) => ({ amount: String((response as IDataObject).winc), unit: 'winc' }),
+    },
+    // Turbo credits cannot be withdrawn back to AR
+    account: {
+      url: turboPaymentEndpoint,
+      balancePath: (address) => `/v1/account/balance/arweave?address=${address}`,
+      parseBalance: (response) => ({
+        amount: String((response as IDataObject).winc),
+        unit: 'winc',
+      }),
+      infoPath: '/v1/info',
+      fundPath: '/v1/account/balance/arweave',
+      withdrawal: null,
+    },
+  },
+  // ar.io gateways run the Turbo upload service for allow-listed signers, without a payment service
+  ario: {
+    ...BUNDLERS.ARIO,
+    uploadPath: '/v1/tx',
+    price: null,
+    account: null,
+  },
+};
+
+/**
+ * Resolve the bundler provider and endpoint from the credentials
+ */
+export async function getBundler(
+  context: IExecuteFunctions,
+): Promise<{ provider: BundlerProvider; endpoint: string; timeout: number }> {
+  const credentials = await getGatewayCredentials(context);
+  const provider = BUNDLER_PROVIDERS[credentials.bundlerProvider];
+  if (!provider) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Unknown bundler provider: ${credentials.bundlerProvider}`,
+    );
+  }
+
+  const endpoint = (credentials.bundlrEndpoint || provider.defaultEndpoint).replace(/\/+$/, '');
+  if (!endpoint) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `A bundler endpoint must be set in the credentials to use ${provider.displayName}`,
+    );
+  }
+  return { provider, endpoint, timeout: credentials.timeout };
+}
+
+/**
+ * Send a request to a bundler service, surfacing failures as API errors
+ */
+async function bundlerRequest(
+  context: IExecuteFunctions,
+  options: IHttpRequestOptions,
+): Promise<unknown> {
+  try {
+    return await context.helpers.httpRequest({ returnFullResponse: false, ...options });
+  } catch (error) {
+    throw new NodeApiError(context.getNode(), error as { message?: string });
+  }
+}
+
+/**
+ * Normalize the receipts of the supported bundlers to one shape
+ *
+ * Irys and Turbo both return a signed receipt with the item ID, a timestamp and
+ * the block height by which the item is guaranteed to be settled on Arweave.
+ */
+export function parseBundlerReceipt(response: unknown): BundlerReceipt {
+  const raw = (typeof response === 'string' ? JSON.parse(response) : response) as IDataObject;
+  return {
+    id: raw.id as string,
+    timestamp: toNumber(raw.timestamp),
+    deadlineHeight: toNumber(raw.deadlineHeight),
+    signature: (raw.signature as string) || null,
+    raw,
+  };
+}
+
+/**
+ * Post a signed ANS-104 data item to the configured bundler
+ */
+export async function postDataItem(
+  context: IExecuteFunctions,
+  dataItem: Buffer,
+): Promise<BundlerReceipt & { provider: string; endpoint: string }> {
+  const { provider, endpoint, timeout } = await getBundler(context);
+
+  const response = await bundlerRequest(context, {
+    method: 'POST',
+    url: `${endpoint}${provider.uploadPath}`,
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      Accept: 'application/json',
+    },
+    body: dataItem,
+    timeout,
+  });
+
+  let receipt: BundlerReceipt;
+  try {
+    receipt = parseBundlerReceipt(response);
+  } catch {
+    // Proxies and rate limiters answer with HTML or plain text error pages
+    throw new NodeOperationError(
+      context.getNode(),
+      `${provider.displayName} returned a receipt that is not JSON: ${String(response).slice(0, 200)}`,
+    );
+  }
+  return { ...receipt, provider: provider.name, endpoint };
+}
+
+/**
+ * Quote the bundler price for uploading a number of bytes
+ */
+export async function getBundlerPrice(
+  context: IExecuteFunctions,
+  bytes: number,
+): Promise<{ amount: string; unit: string; provider: string }> {
+  const { provider, endpoint, timeout } = await getBundler(context);
+  if (!provider.price) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${provider.displayName} bundlers do not quote upload prices`,
+    );
+  }
+
+  const response = await bundlerRequest(context, {
+    method: 'GET',
+    url: provider.price.url(endpoint, bytes),
+    timeout,
+  });
+
+  return { ...provider.price.parse(response), provider: provider.name };
+}
+
+/**
+ * Resolve the bundler account service, failing for providers without prepaid balances
+ */
+async function getBundlerAccount(context: IExecuteFunctions): Promise<{
+  provider: BundlerProvider;
+  account: NonNullable<BundlerProvider['account']>;
+  url: string;
+  timeout: number;
+}> {
+  const { provider, endpoint, timeout } = await getBundler(context);
+  if (!provider.account) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${provider.displayName} bundlers do not hold account balances`,
+    );
+  }
+  return { provider, account: provider.account, url: provider.account.url(endpoint), timeout };
+}
+
+/**
+ * Get the prepaid bundler balance of an address, the credential wallet by default
+ */
+export async function getBundlerBalance(
+  context: IExecuteFunctions,
+  address?: string,
+): Promise<{ address: string; amount: string; unit: string; provider: string }> {
+  const { provider, account, url, timeout } = await getBundlerAccount(context);
+  const owner = address || (await getCredentials(context)).address;
+
+  const response = await bundlerRequest(context, {
+    method: 'GET',
+    url: `${url}${account.balancePath(owner)}`,
+    timeout,
+  });
+
+  return { address: owner, ...account.parseBalance(response), provider: provider.name };
+}
+
+/**
+ * Get the Arweave address the bundler accepts funding transfers at
+ */
+export async function getBundlerDepositAddress(context: IExecuteFunctions): Promise<string> {
+  const { provider, account, url, timeout } = await getBundlerAccount(context);
+
+  const info = (await bundlerRequest(context, {
+    method: 'GET',
+    url: `${url}${account.infoPath}`,
+    timeout,
+  })) as { addresses?: { arweave?: string } };
+
+  const address = info.addresses?.arweave;
+  if (!address) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${provider.displayName} did not report an Arweave deposit address`,
+    );
+  }
+  return address;
+}
+
+/**
+ * Ask the bundler to credit a posted funding transfer to the sender's balance
+ *
+ * Bundlers only credit transfers they can see, so a freshly posted transaction may be
+ * reported as pending until the gateway has propagated it.
+ */
+export async function registerBundlerFunding(
+  context: IExecuteFunctions,
+  txId: string,
+): Promise<IDataObject> {
+  const { account, url, timeout } = await getBundlerAccount(context);
+
+  const response = await bundlerRequest(context, {
+    method: 'POST',
+    url: `${url}${account.fundPath}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: { tx_id: txId },
+    timeout,
+  });
+
+  return toDataObject(response);
+}
+
+/**
+ * Withdraw winston from the prepaid bundler balance back to the credential wallet
+ *
+ * The request is authorized by signing the deep hash of the currency, amount and the
+ * account's current withdrawal nonce with the wallet key.
+ */
+export async function withdrawFromBundler(
+  context: IExecuteFunctions,
+  amount: string,
+): Promise<IDataObject> {
+  const { provider, account, url, timeout } = await getBundlerAccount(context);
+  if (!account.withdrawal) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${provider.displayName} does not support withdrawals`,
+    );
+  }
+  const credentials = await getCredentials(context);
+
+  const nonce = String(
+    await bundlerRequest(context, {
+      method: 'GET',
+      url: `${url}${account.withdrawal.noncePath(credentials.address)}`,
+      timeout,
+    }),
+  );
+  const message = deepHash([Buffer.from('arweave'), Buffer.from(amount), Buffer.from(nonce)]);
+
+  const response = await bundlerRequest(context, {
+    method: 'POST',
+    url: `${url}${account.withdrawal.path}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      publicKey: credentials.jwk.n,
+      currency: 'arweave',
+      amount,
+      nonce: Number(nonce),
+      signature: await signMessage(credentials.jwk, message),
+      sigType: SIGNATURE_TYPES.ARWEAVE.type,
+    },
+    timeout,
+  });
+
+  return toDataObject(response);
+}
@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { BINARY_ENCODING } from 'n8n-workflow';
+import type {
+  ChunkUploadState,
+  DataUploadResult,
+  TransactionAttributes,
+  UploadSource,
+} from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+import { bufferToBase64Url, encodeTags } from '../utils/helpers';
+import { generateTransactionChunks, hashChunks, readChunks } from '../utils/merkle';
+import {
+  createSignedTransaction,
+  getCredentials,
+  postChunk,
+  submitTransaction,
+} from './arweaveClient';
+
+/**
+ * Wrap an in-memory buffer as an upload source
+ */
+export function bufferSource(data: Buffer): UploadSource {
+  return {
+    size: data.byteLength,
+    open: async () => [data],
+  };
+}
+
+/**
+ * Create an upload source for an item's binary property, streaming it when it is
+ * held by the n8n binary data store rather than inline
+ */
+export async function binarySource(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  binaryPropertyName: string,
+): Promise<UploadSource> {
+  const binaryData = context.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+
+  if (binaryData.id) {
+    const binaryDataId = binaryData.id;
+    const metadata = await context.helpers.getBinaryMetadata(binaryDataId);
+    return {
+      size: metadata.fileSize,
+      open: async () =>
+        context.helpers.getBinaryStream(binaryDataId, ARWEAVE_CONSTANTS.CHUNK.MAX_SIZE),
+    };
+  }
+
+  return bufferSource(Buffer.from(binaryData.data, BINARY_ENCODING));
+}
+
+/**
+ * Read a whole upload source into memory
+ */
+export async function readSource(source: UploadSource): Promise<Buffer> {
+  const pieces: Buffer[] = [];
+  for await (const piece of await source.open()) {
+    pieces.push(Buffer.from(piece));
+  }
+  return Buffer.concat(pieces);
+}
+
+function getUploadStates(context: IExecuteFunctions): IDataObject {
+  const staticData = context.getWorkflowStaticData('node');
+  if (!staticData.chunkUploads) {
+    staticData.chunkUploads = {};
+  }
+  return staticData.chunkUploads as IDataObject;
+}
+
+function isSameUpload(
+  state: ChunkUploadState,
+  attributes: Omit<TransactionAttributes, 'reward' | 'lastTx' | 'data' | 'chunks'>,
+): boolean {
+  const { transaction } = state;
+  return (
+    JSON.stringify(transaction.tags) === JSON.stringify(encodeTags(attributes.tags)) &&
+    transaction.target === (attributes.target || '') &&
+    transaction.quantity === (attributes.quantity || '0')
+  );
+}
+
+/**
+ * Sign and upload data from a source as a transaction
+ *
+ * Data up to MAX_DATA_SIZE_UNBUNDLED is posted inline with the transaction.
+ * Larger data is posted as a header followed by 256 KiB chunks with their
+ * Merkle proofs. Chunk progress is kept in the workflow static data keyed by
+ * wallet address and data_root, so re-running a failed upload of the same data
+ * with the same wallet resumes from the last accepted chunk instead of paying
+ * for a new transaction. n8n only saves static data for active workflows, so
+ * manual executions start over.
+ */
+export async function uploadTransactionData(
+  context: IExecuteFunctions,
+  source: UploadSource,
+  attributes: Omit<TransactionAttributes, 'reward' | 'lastTx' | 'data' | 'chunks'>,
+): Promise<DataUploadResult> {
+  if (source.size <= ARWEAVE_CONSTANTS.MAX_DATA_SIZE_UNBUNDLED) {
+    const data = await readSource(source);
+    const transaction = await createSignedTransaction(context, { ...attributes, data });
+    const submission = await submitTransaction(context, transaction);
+    return {
+      transaction,
+      status: submission.status,
+      chunked: false,
+      chunkCount: 0,
+      resumed: false,
+    };
+  }
+
+  // First pass: hash the chunks to build the Merkle tree and data_root
+  const chunks = generateTransactionChunks(
+    await hashChunks(await source.open(), source.size),
+    source.size,
+  );
+  const dataRoot = bufferToBase64Url(chunks.dataRoot);
+  // Another wallet must never reuse a transaction this one signed
+  const { address } = await getCredentials(context);
+  const uploadKey = `${address}:${dataRoot}`;
+
+  const uploads = getUploadStates(context);
+  let state = uploads[uploadKey] as unknown as ChunkUploadState | undefined;
+  const resumed = state !== undefined && isSameUpload(state, attributes);
+  let status = 'Resumed';
+
+  if (!state || !resumed) {
+    const transaction = await createSignedTransaction(context, { ...attributes, chunks });
+    status = (await submitTransaction(context, transaction)).status;
+    state = { transaction, lastChunkIndex: -1 };
+    uploads[uploadKey] = state as unknown as IDataObject;
+  }
+
+  // Second pass: stream the chunks again and post each one with its proof
+  let index = 0;
+  for await (const chunk of readChunks(await source.open(), source.size)) {
+    if (index > state.lastChunkIndex && index < chunks.chunks.length) {
+      await postChunk(context, {
+        data_root: dataRoot,
+        data_size: source.size.toString(),
+        data_path: bufferToBase64Url(chunks.proofs[index].proof),
+        offset: chunks.proofs[index].offset.toString(),
+        chunk: bufferToBase64Url(chunk),
+      });
+      state.lastChunkIndex = index;
+    }
+    index++;
+  }
+
+  delete uploads[uploadKey];
+
+  return {
+    transaction: state.transaction,
+    status,
+    chunked: true,
+    chunkCount: chunks.chunks.length,
+    resumed,
+  };
+}
@@ -0,0 +1,325 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IHttpRequestOptions, IPollFunctions } from 'n8n-workflow';
+import type { ArweaveCredentials, GatewayRetryOptions } from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+import { retryWithBackoff } from '../utils/helpers';
+
+export type GatewayContext = IExecuteFunctions | IPollFunctions;
+
+// Request options with a path appended to each gateway instead of a full URL
+export type GatewayRequestOptions = Omit<IHttpRequestOptions, 'url'> & { path?: string };
+
+/**
+ * How a request may be spread over the configured gateways
+ */
+export interface GatewayPolicy {
+  // Reads may be raced; writes are only ever retried on the next gateway
+  read: boolean;
+  race?: boolean;
+  // A 404 for data posted moments ago may only mean this gateway has not indexed it yet
+  retryNotFound?: boolean;
+  // Whether a failed request may be sent again after a backoff; defaults to read
+  idempotent?: boolean;
+  // Throw to reject a response and try the next gateway. Rejected answers are not retried
+  // after a backoff, as the gateway would give the same answer again.
+  validate?: (response: unknown) => void;
+}
+
+// When each gateway last failed; recently failed gateways are tried after healthy ones
+const gatewayFailures = new Map<string, number>();
+
+// The gateway that served the latest request made through a node context
+const servedGateways = new WeakMap<object, string>();
+
+// Errors thrown by a policy's validate for an answer a gateway did give
+const rejectedAnswers = new WeakSet<object>();
+
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+}
+
+// Retry settings and gateway circuits of a node context, kept across the items of an execution
+const retryOptions = new WeakMap<object, GatewayRetryOptions>();
+const circuits = new WeakMap<object, Map<string, CircuitState>>();
+
+const DEFAULT_RETRY_OPTIONS: GatewayRetryOptions = {
+  maxRetries: ARWEAVE_CONSTANTS.MAX_RETRIES,
+  retryDelay: ARWEAVE_CONSTANTS.RETRY_BASE_DELAY,
+  maxRetryDelay: ARWEAVE_CONSTANTS.RETRY_MAX_DELAY,
+  breakerThreshold: ARWEAVE_CONSTANTS.BREAKER_THRESHOLD,
+  breakerCooldown: ARWEAVE_CONSTANTS.BREAKER_COOLDOWN,
+};
+
+/**
+ * Get the ordered, de-duplicated gateway list of the credentials
+ */
+export function getGatewayUrls(
+  credentials: Pick<ArweaveCredentials, 'gatewayUrl' | 'fallbackGateways'>,
+): string[] {
+  return [...new Set([credentials.gatewayUrl, ...credentials.fallbackGateways])];
+}
+
+/**
+ * Get the GraphQL endpoints to try: the configured endpoint, then /graphql on each fallback
+ */
+export function getGraphqlUrls(
+  credentials: Pick<ArweaveCredentials, 'graphqlEndpoint' | 'gatewayUrl' | 'fallbackGateways'>,
+): string[] {
+  return [
+    ...new Set([
+      credentials.graphqlEndpoint || `${credentials.gatewayUrl}/graphql`,
+      ...credentials.fallbackGateways.map((gateway) => `${gateway}/graphql`),
+    ]),
+  ];
+}
+
+/**
+ * Get the HTTP status of a failed request, if the gateway answered at all
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const { response, httpCode, statusCode } = error as {
+    response?: { status?: number };
+    httpCode?: string | number;
+    statusCode?: number;
+  };
+  const status = response?.status ?? statusCode ?? (httpCode ? Number(httpCode) : undefined);
+  return status && !isNaN(status) ? status : undefined;
+}
+
+/**
+ * Whether a failure may succeed on another gateway
+ *
+ * Network errors, 5xx and 429 are gateway problems. Other 4xx answers would be the
+ * same everywhere, except 404 for data a gateway may not have indexed yet.
+ */
+export function isFailoverError(error: unknown, retryNotFound = false): boolean {
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return true;
+  }
+  return status >= 500 || status === 429 || (status === 404 && retryNotFound);
+}
+
+/**
+ * Get how long a failed request asked to wait before retrying, in milliseconds
+ *
+ * Reads the Retry-After header, which holds either seconds or an HTTP date.
+ */
+export function getRetryAfter(error: unknown, now = Date.now()): number | undefined {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } }).response?.headers;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Order gateways healthy first, keeping the configured order within each group
+ */
+export function orderGateways(gateways: string[], now = Date.now()): string[] {
+  const failedAt = (gateway: string) => gatewayFailures.get(gateway) ?? 0;
+  const isHealthy = (gateway: string) =>
+    now - failedAt(gateway) >= ARWEAVE_CONSTANTS.GATEWAY_COOLDOWN;
+
+  return [
+    ...gateways.filter(isHealthy),
+    ...gateways.filter((gateway) => !isHealthy(gateway)).sort((a, b) => failedAt(a) - failedAt(b)),
+  ];
+}
+
+/**
+ * Forget recorded gateway failures
+ */
+export function resetGatewayHealth(): void {
+  gatewayFailures.clear();
+}
+
+/**
+ * Set the retry and circuit breaker settings for requests made through a context
+ */
+export function setRetryOptions(
+  context: GatewayContext,
+  options: Partial<GatewayRetryOptions>,
+): void {
+  retryOptions.set(context, { ...DEFAULT_RETRY_OPTIONS, ...options });
+}
+
+function getRetryOptions(context: GatewayContext): GatewayRetryOptions {
+  return retryOptions.get(context) ?? DEFAULT_RETRY_OPTIONS;
+}
+
+/**
+ * Whether a gateway's circuit is open for requests made through a context
+ *
+ * A circuit opens after breakerThreshold consecutive failures. Once breakerCooldown has
+ * passed one trial request gets through: success closes the circuit, failure reopens it.
+ */
+export function isCircuitOpen(context: GatewayContext, gateway: string, now = Date.now()): boolean {
+  const openedAt = circuits.get(context)?.get(gateway)?.openedAt;
+  return openedAt !== undefined && now - openedAt < getRetryOptions(context).breakerCooldown;
+}
+
+function recordFailure(context: GatewayContext, gateway: string): void {
+  let contextCircuits = circuits.get(context);
+  if (!contextCircuits) {
+    contextCircuits = new Map();
+    circuits.set(context, contextCircuits);
+  }
+  const circuit = contextCircuits.get(gateway) ?? { failures: 0 };
+  circuit.failures++;
+  if (circuit.failures >= getRetryOptions(context).breakerThreshold) {
+    circuit.openedAt = Date.now();
+  }
+  contextCircuits.set(gateway, circuit);
+}
+
+/**
+ * Get the gateway that served the latest request made through a context
+ */
+export function getServedGateway(context: GatewayContext): string | undefined {
+  return servedGateways.get(context);
+}
+
+/**
+ * Forget the gateway that served the latest request made through a context
+ */
+export function clearServedGateway(context: GatewayContext): void {
+  servedGateways.delete(context);
+}
+
+async function requestFrom(
+  context: GatewayContext,
+  gateway: string,
+  options: GatewayRequestOptions,
+  policy: GatewayPolicy,
+): Promise<unknown> {
+  const { path = '', ...requestOptions } = options;
+  let response: unknown;
+  try {
+    response = await context.helpers.httpRequest({ ...requestOptions, url: `${gateway}${path}` });
+  } catch (error) {
+    // A 404 says nothing about the gateway's health
+    if (isFailoverError(error) && getErrorStatus(error) !== 404) {
+      gatewayFailures.set(gateway, Date.now());
+      recordFailure(context, gateway);
+    }
+    throw error;
+  }
+  gatewayFailures.delete(gateway);
+  circuits.get(context)?.delete(gateway);
+
+  // An answer the caller rejects moves on to the next gateway without marking this one failed
+  try {
+    policy.validate?.(response);
+  } catch (error) {
+    rejectedAnswers.add(error as object);
+    throw error;
+  }
+  return response;
+}
+
+/**
+ * Send a request to the first gateway that can serve it
+ *
+ * Gateways are tried in order, healthy ones first, moving on for failures another
+ * gateway may not have. Gateways with an open circuit are skipped. Reads with race set
+ * go to every gateway at once and take the first valid response.
+ */
+async function requestAny(
+  context: GatewayContext,
+  gateways: string[],
+  options: GatewayRequestOptions,
+  policy: GatewayPolicy,
+): Promise<unknown> {
+  const ordered = orderGateways(gateways).filter((gateway) => !isCircuitOpen(context, gateway));
+  if (ordered.length === 0) {
+    throw new Error(
+      `Every gateway failed repeatedly and is paused for this execution: ${gateways.join(', ')}`,
+    );
+  }
+
+  if (policy.read && policy.race && ordered.length > 1) {
+    return new Promise((resolve, reject) => {
+      const errors: unknown[] = [];
+      let failed = 0;
+      let settled = false;
+      ordered.forEach((gateway, index) => {
+        requestFrom(context, gateway, options, policy).then(
+          (response) => {
+            if (!settled) {
+              settled = true;
+              servedGateways.set(context, gateway);
+              resolve(response);
+            }
+          },
+          (error) => {
+            errors[index] = error;
+            if (++failed === ordered.length) {
+              // Report what the most preferred gateway said
+              reject(errors[0]);
+            }
+          },
+        );
+      });
+    });
+  }
+
+  let lastError: unknown;
+  for (const gateway of ordered) {
+    try {
+      const response = await requestFrom(context, gateway, options, policy);
+      servedGateways.set(context, gateway);
+      return response;
+    } catch (error) {
+      lastError = error;
+      if (!isFailoverError(error, policy.retryNotFound)) {
+        throw error;
+      }
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Send a request through the gateways, retrying idempotent requests
+ *
+ * When every gateway fails in a way that may pass, idempotent requests are sent again
+ * after an exponential backoff with jitter, or after the Retry-After the gateway asked
+ * for. Retries stop once every gateway's circuit is open. The serving gateway is
+ * recorded for getServedGateway.
+ */
+export async function gatewayRequest(
+  context: GatewayContext,
+  gateways: string[],
+  options: GatewayRequestOptions,
+  policy: GatewayPolicy,
+): Promise<unknown> {
+  const attempt = () => requestAny(context, gateways, options, policy);
+  if (!(policy.idempotent ?? policy.read)) {
+    return attempt();
+  }
+
+  const { maxRetries, retryDelay, maxRetryDelay } = getRetryOptions(context);
+  return retryWithBackoff(attempt, maxRetries + 1, retryDelay, {
+    maxDelay: maxRetryDelay,
+    jitter: true,
+    shouldRetry: (error) =>
+      !rejectedAnswers.has(error as object) &&
+      isFailoverError(error, policy.retryNotFound) &&
+      gateways.some((gateway) => !isCircuitOpen(context, gateway)),
+    retryAfter: (error) => getRetryAfter(error),
+  });
+}
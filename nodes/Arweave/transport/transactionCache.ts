@@ -0,0 +1,146 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { TransactionCacheOptions } from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+
+// What is cached for a transaction: its header JSON (with tags) or its data
+export type CacheEntryKind = 'header' | 'data';
+
+// Only well-formed IDs become file names, so no ID can point outside the cache directory
+const TX_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+// Eviction only ever deletes files the cache wrote
+const ENTRY_NAME_PATTERN = /^[A-Za-z0-9_-]{43}\.(header|data)$/;
+
+// Cache settings of a node context, kept for the whole execution
+const cacheOptions = new WeakMap<object, TransactionCacheOptions>();
+
+/**
+ * Get the directory used when the node does not set one, inside the n8n user folder
+ */
+export function getDefaultCacheDirectory(): string {
+  return join(process.env.N8N_USER_FOLDER || homedir(), '.n8n', 'arweave-cache');
+}
+
+/**
+ * Enable the transaction cache for requests made through a context, or disable it
+ */
+export function setTransactionCache(
+  context: IExecuteFunctions,
+  options: Partial<TransactionCacheOptions> | null,
+): void {
+  if (!options) {
+    cacheOptions.delete(context);
+    return;
+  }
+  cacheOptions.set(context, {
+    directory: options.directory || getDefaultCacheDirectory(),
+    maxBytes: options.maxBytes ?? ARWEAVE_CONSTANTS.CACHE_MAX_SIZE,
+    minConfirmations: options.minConfirmations ?? ARWEAVE_CONSTANTS.CONFIRMATIONS.HIGH,
+  });
+}
+
+/**
+ * Get the cache settings of a context, if it caches transactions
+ */
+export function getTransactionCache(
+  context: IExecuteFunctions,
+): TransactionCacheOptions | undefined {
+  return cacheOptions.get(context);
+}
+
+function getEntryPath(directory: string, txId: string, kind: CacheEntryKind): string | undefined {
+  return TX_ID_PATTERN.test(txId) ? join(directory, `${txId}.${kind}`) : undefined;
+}
+
+/**
+ * Read a cached entry, marking it recently used
+ */
+export async function readCacheEntry(
+  options: TransactionCacheOptions,
+  txId: string,
+  kind: CacheEntryKind,
+): Promise<Buffer | undefined> {
+  const path = getEntryPath(options.directory, txId, kind);
+  if (!path) {
+    return undefined;
+  }
+  try {
+    const content = await fs.readFile(path);
+    // The modification time orders entries for eviction
+    const now = new Date();
+    await fs.utimes(path, now, now).catch(() => undefined);
+    return content;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store an entry, then evict least recently used entries until the cache fits its cap
+ *
+ * Entries are written to a temporary file and renamed, so readers never see a partial
+ * entry. Cache failures are swallowed: the cache only ever saves requests.
+ */
+export async function writeCacheEntry(
+  options: TransactionCacheOptions,
+  txId: string,
+  kind: CacheEntryKind,
+  content: Buffer,
+): Promise<void> {
+  const path = getEntryPath(options.directory, txId, kind);
+  if (!path || content.length > options.maxBytes) {
+    return;
+  }
+  const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    // Only the n8n user may read or plant entries in a directory the cache creates
+    await fs.mkdir(options.directory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(temporary, content, { mode: 0o600 });
+    await fs.rename(temporary, path);
+    await evictCacheEntries(options);
+  } catch {
+    // An unwritable cache behaves like an empty one
+    await fs.unlink(temporary).catch(() => undefined);
+  }
+}
+
+/**
+ * Delete least recently used entries until the cache holds at most maxBytes
+ */
+export async function evictCacheEntries(options: TransactionCacheOptions): Promise<void> {
+  const entries: { path: string; size: number; usedAt: number }[] = [];
+  for (const name of await fs.readdir(options.directory)) {
+    if (!ENTRY_NAME_PATTERN.test(name)) {
+      continue;
+    }
+    const path = join(options.directory, name);
+    try {
+      const stats = await fs.stat(path);
+      if (stats.isFile()) {
+        entries.push({ path, size: stats.size, usedAt: stats.mtimeMs });
+      }
+    } catch {
+      // Removed by another execution in the meantime
+    }
+  }
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+  for (const entry of entries) {
+    if (total <= options.maxBytes) {
+      break;
+    }
+    await fs.unlink(entry.path).catch(() => undefined);
+    total -= entry.size;
+  }
+}
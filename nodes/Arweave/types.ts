@@ -41,6 +41,16 @@ export interface ArweaveTransaction {
   signature: string;
 }
 
+export interface TransactionAttributes {
+  data?: Buffer;
+  chunks?: TransactionChunks;
+  tags: { name: string; value: string }[];
+  target?: string;
+  quantity?: string;
+  reward: string;
+  lastTx: string;
+}
+
 export interface ArweaveTransactionStatus {
   block_height: number;
   block_indep_hash: string;
@@ -138,6 +148,15 @@ export interface GraphQLTransactionsResponse {
   };
 }
 
+// How far paginateTransactions walks the cursors of a query
+export interface GraphQLPaginationOptions {
+  // Stop after this many transactions; 0 returns every page
+  maxResults?: number;
+  pageSize?: number;
+  // Milliseconds to wait between pages
+  pageDelay?: number;
+}
+
 export interface GraphQLBlocksResponse {
   blocks: {
     pageInfo: GraphQLPageInfo;
@@ -156,6 +175,7 @@ export interface GraphQLBlocksResponse {
 // Bundle Types (ANS-104)
 export interface DataItem {
   id?: string;
+  signatureType?: number;
   signature?: string;
   owner: string;
   target: string;
@@ -164,11 +184,121 @@ export interface DataItem {
   data: string;
 }
 
+export interface DataItemAttributes {
+  data: Buffer;
+  tags: { name: string; value: string }[];
+  target?: string;
+  anchor?: string;
+}
+
+export interface DataItemSigner {
+  signatureType: number;
+  owner: Buffer;
+  sign: (message: Buffer) => Promise<Buffer>;
+}
+
+export interface SignedDataItem {
+  id: string;
+  binary: Buffer;
+  header: Omit<DataItem, 'data'>;
+}
+
+export interface ParsedDataItem {
+  id: string;
+  signatureType: number;
+  signature: Buffer;
+  owner: Buffer;
+  target: Buffer;
+  anchor: Buffer;
+  tags: { name: string; value: string }[];
+  rawTags: Buffer;
+  data: Buffer;
+}
+
+export type BundlerProviderName = 'irys' | 'turbo' | 'ario';
+
+// GraphQL schema flavours served by Arweave gateways
+export type GraphqlDialectName = 'arweave' | 'goldsky' | 'ario';
+
+// What a GraphQL endpoint can filter on and return
+export interface GraphqlDialect {
+  name: GraphqlDialectName;
+  // TagFilter accepts match modes
+  tagMatch: boolean;
+  // transactions accepts ingested_at bounds
+  ingestedAt: boolean;
+  // BlockFilter accepts timestamp bounds
+  blockTimestamp: boolean;
+}
+
+export interface BundlerReceipt {
+  id: string;
+  timestamp: number | null;
+  deadlineHeight: number | null;
+  signature: string | null;
+  raw: IDataObject;
+}
+
 export interface Bundle {
   items: DataItem[];
   length: number;
 }
 
+// Merkle Types
+export interface MerkleChunk {
+  dataHash: Buffer;
+  minByteRange: number;
+  maxByteRange: number;
+}
+
+export interface MerkleLeaf extends MerkleChunk {
+  type: 'leaf';
+  id: Buffer;
+}
+
+export interface MerkleBranch {
+  type: 'branch';
+  id: Buffer;
+  byteRange: number;
+  maxByteRange: number;
+  leftChild: MerkleNode;
+  rightChild: MerkleNode;
+}
+
+export type MerkleNode = MerkleLeaf | MerkleBranch;
+
+export interface MerkleProof {
+  offset: number;
+  proof: Buffer;
+}
+
+export interface TransactionChunks {
+  dataRoot: Buffer;
+  dataSize: number;
+  chunks: MerkleChunk[];
+  proofs: MerkleProof[];
+}
+
+export interface TransactionChunk {
+  data_root: string;
+  data_size: string;
+  data_path: string;
+  offset: string;
+  chunk: string;
+}
+
+export interface UploadSource {
+  size: number;
+  open: () => Promise<AsyncIterable<Buffer | Uint8Array> | Iterable<Buffer | Uint8Array>>;
+}
+
+export interface ChunkUploadState {
+  transaction: ArweaveTransaction;
+  lastChunkIndex: number;
+}
+
+export type DeepHashChunk = Uint8Array | DeepHashChunk[];
+
 // Manifest Types
 export interface ManifestPath {
   id: string;
@@ -233,12 +363,38 @@ export interface ArweaveApiResponse<T = unknown> {
 
 // Credential Types
 export interface ArweaveCredentials {
+  access: 'signing' | 'readOnly';
   walletJwk: string;
   gatewayUrl: string;
+  // Tried in order after gatewayUrl when it cannot serve a request
+  fallbackGateways: string[];
+  gatewayMode: 'failover' | 'race';
   graphqlEndpoint?: string;
+  graphqlDialect: GraphqlDialectName | 'auto';
   bundlrEndpoint?: string;
+  bundlerProvider: BundlerProviderName;
   network: 'mainnet' | 'testnet';
   timeout: number;
+  apiKey?: string;
+}
+
+// Retry and circuit breaker settings for gateway requests, set from the node's request options
+export interface GatewayRetryOptions {
+  // Retries after the first attempt of an idempotent request
+  maxRetries: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+  // Consecutive failures that open a gateway's circuit, and how long it stays open
+  breakerThreshold: number;
+  breakerCooldown: number;
+}
+
+// On-disk cache of confirmed transaction headers and data, set from the node's request options
+export interface TransactionCacheOptions {
+  directory: string;
+  maxBytes: number;
+  // Confirmations a transaction needs before it is cached
+  minConfirmations: number;
 }
 
 // Node Operation Types
@@ -270,6 +426,14 @@ export interface UploadResult {
   reward: string;
 }
 
+export interface DataUploadResult {
+  transaction: ArweaveTransaction;
+  status: string;
+  chunked: boolean;
+  chunkCount: number;
+  resumed: boolean;
+}
+
 export interface BatchUploadItem {
   data: string | Buffer;
   contentType?: string;
@@ -295,6 +459,8 @@ export interface TagFilter {
   name: string;
   values: string[];
   op?: 'EQ' | 'NEQ';
+  // WILDCARD and the FUZZY modes are served by ar.io gateways only
+  match?: 'EXACT' | 'WILDCARD' | 'FUZZY_AND' | 'FUZZY_OR';
 }
 
 export interface BlockFilter {
@@ -302,16 +468,47 @@ export interface BlockFilter {
   max?: number;
 }
 
+// Inclusive bounds on a winston or byte amount, as decimal strings
+export interface ValueRange {
+  min?: string;
+  max?: string;
+}
+
 export interface QueryOptions {
   first?: number;
   after?: string;
+  ids?: string[];
   tags?: TagFilter[];
   owners?: string[];
   recipients?: string[];
+  bundledIn?: string[];
   block?: BlockFilter;
+  // Unix seconds when the gateway indexed the transaction
+  ingestedAt?: { min?: number; max?: number };
+  // Unix seconds of the block; checked on each page where the endpoint cannot filter on it
+  blockTime?: { min?: number; max?: number };
+  // Gateways do not filter on amounts, so these bounds are checked on each page
+  fee?: ValueRange;
+  quantity?: ValueRange;
+  dataSize?: ValueRange;
   sort?: 'HEIGHT_ASC' | 'HEIGHT_DESC';
 }
 
+// Transaction node fields a query can select
+export type TransactionField =
+  | 'id'
+  | 'anchor'
+  | 'signature'
+  | 'recipient'
+  | 'owner'
+  | 'fee'
+  | 'quantity'
+  | 'data'
+  | 'tags'
+  | 'block'
+  | 'parent'
+  | 'bundledIn';
+
 // Manifest Types
 export interface ArweaveManifestPath {
   id: string;
@@ -331,3 +528,17 @@ export interface ArweaveManifest {
     [path: string]: ArweaveManifestPath;
   };
 }
+
+// Trigger Types
+export interface HeldTransaction {
+  // Item the trigger emits once the transaction is deep enough
+  item: IDataObject;
+  // Network height when the trigger first saw the transaction
+  seenAt: number;
+}
+
+export interface RecentBlock {
+  height: number;
+  // indep_hash of the block
+  hash: string;
+}
@@ -0,0 +1,489 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import type {
+  ArweaveJWK,
+  DataItemAttributes,
+  DataItemSigner,
+  ParsedDataItem,
+  SignedDataItem,
+} from '../types';
+import { ARWEAVE_CONSTANTS, SIGNATURE_TYPES } from '../constants';
+import { deepHash } from './deepHash';
+import { signatureToId } from './transaction';
+import {
+  base58ToBuffer,
+  base64UrlToBuffer,
+  bufferToBase58,
+  bufferToBase64Url,
+  encodeTags,
+  signMessage,
+  verifySignature,
+} from './helpers';
+
+const { DATA_ITEM } = ARWEAVE_CONSTANTS;
+
+/**
+ * Encode a non-negative integer as an Avro zig-zag varint
+ */
+function writeLong(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value * 2;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode an Avro zig-zag varint starting at the cursor position
+ */
+function readLong(buffer: Buffer, cursor: { offset: number }): number {
+  let value = 0;
+  let multiplier = 1;
+  let byte: number;
+  do {
+    if (cursor.offset >= buffer.byteLength) {
+      throw new Error('Tag data is truncated');
+    }
+    byte = buffer[cursor.offset++];
+    value += (byte & 0x7f) * multiplier;
+    multiplier *= 0x80;
+  } while (byte & 0x80);
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+function readBytes(buffer: Buffer, cursor: { offset: number }): Buffer {
+  const length = readLong(buffer, cursor);
+  if (length < 0 || cursor.offset + length > buffer.byteLength) {
+    throw new Error('Tag data is truncated');
+  }
+  const bytes = buffer.subarray(cursor.offset, cursor.offset + length);
+  cursor.offset += length;
+  return bytes;
+}
+
+function writeBytes(value: Buffer): Buffer {
+  return Buffer.concat([writeLong(value.byteLength), value]);
+}
+
+function writeUInt64LE(value: number, length = 8): Buffer {
+  const buffer = Buffer.alloc(length);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+/**
+ * Serialize tags as the Avro array used by ANS-104 (empty when there are no tags)
+ */
+export function serializeTags(tags: { name: string; value: string }[]): Buffer {
+  if (tags.length === 0) {
+    return Buffer.alloc(0);
+  }
+  return Buffer.concat([
+    writeLong(tags.length),
+    ...tags.flatMap((tag) => [
+      writeBytes(Buffer.from(tag.name)),
+      writeBytes(Buffer.from(tag.value)),
+    ]),
+    writeLong(0),
+  ]);
+}
+
+function validateAttributes(attributes: DataItemAttributes): void {
+  if (attributes.tags.length > DATA_ITEM.MAX_TAGS) {
+    throw new Error(`Data items support at most ${DATA_ITEM.MAX_TAGS} tags`);
+  }
+  for (const tag of attributes.tags) {
+    if (!tag.name || Buffer.byteLength(tag.name) > DATA_ITEM.MAX_TAG_NAME_BYTES) {
+      throw new Error(`Tag names must be 1-${DATA_ITEM.MAX_TAG_NAME_BYTES} bytes`);
+    }
+    if (!tag.value || Buffer.byteLength(tag.value) > DATA_ITEM.MAX_TAG_VALUE_BYTES) {
+      throw new Error(`Tag values must be 1-${DATA_ITEM.MAX_TAG_VALUE_BYTES} bytes`);
+    }
+  }
+  if (
+    attributes.target &&
+    base64UrlToBuffer(attributes.target).byteLength !== DATA_ITEM.TARGET_LENGTH
+  ) {
+    throw new Error(`Target must be a ${DATA_ITEM.TARGET_LENGTH}-byte Base64URL address`);
+  }
+  if (
+    attributes.anchor &&
+    base64UrlToBuffer(attributes.anchor).byteLength !== DATA_ITEM.ANCHOR_LENGTH
+  ) {
+    throw new Error(`Anchor must be ${DATA_ITEM.ANCHOR_LENGTH} bytes`);
+  }
+}
+
+/**
+ * Create a data item signer for an Arweave RSA wallet
+ */
+export function createArweaveSigner(jwk: ArweaveJWK): DataItemSigner {
+  return {
+    signatureType: SIGNATURE_TYPES.ARWEAVE.type,
+    owner: base64UrlToBuffer(jwk.n),
+    sign: async (message) => base64UrlToBuffer(await signMessage(jwk, message)),
+  };
+}
+
+/**
+ * Hash a message the way Ethereum wallets do for personal_sign (EIP-191)
+ */
+function hashEthereumMessage(message: Buffer): Uint8Array {
+  return keccak_256(
+    Buffer.concat([Buffer.from(`\x19Ethereum Signed Message:\n${message.byteLength}`), message]),
+  );
+}
+
+/**
+ * Create a data item signer for an Ethereum secp256k1 private key (hex)
+ *
+ * The owner is the uncompressed public key and signatures are 65-byte r || s || v
+ * personal_sign signatures, matching the ANS-104 Ethereum signature type.
+ */
+export function createEthereumSigner(privateKey: string): DataItemSigner {
+  const key = Buffer.from(privateKey.trim().replace(/^0x/, ''), 'hex');
+  if (key.byteLength !== 32 || !secp256k1.utils.isValidPrivateKey(key)) {
+    throw new Error('Ethereum private key must be a 32-byte hex string');
+  }
+  return {
+    signatureType: SIGNATURE_TYPES.ETHEREUM.type,
+    owner: Buffer.from(secp256k1.getPublicKey(key, false)),
+    sign: async (message) => {
+      const signature = secp256k1.sign(hashEthereumMessage(message), key);
+      return Buffer.concat([
+        Buffer.from(signature.toCompactRawBytes()),
+        Buffer.from([27 + signature.recovery]),
+      ]);
+    },
+  };
+}
+
+/**
+ * Create a data item signer for a Solana ed25519 secret key
+ *
+ * Accepts the 64-byte secret key as Base58 (as exported by wallets) or as the JSON
+ * byte array written by solana-keygen.
+ */
+export function createSolanaSigner(secretKey: string): DataItemSigner {
+  const trimmed = secretKey.trim();
+  let key: Buffer;
+  try {
+    key = trimmed.startsWith('[')
+      ? Buffer.from(JSON.parse(trimmed) as number[])
+      : base58ToBuffer(trimmed);
+  } catch {
+    key = Buffer.alloc(0);
+  }
+  if (key.byteLength !== 64) {
+    throw new Error('Solana secret key must be a 64-byte Base58 string or JSON byte array');
+  }
+  const seed = key.subarray(0, 32);
+  return {
+    signatureType: SIGNATURE_TYPES.SOLANA.type,
+    owner: Buffer.from(ed25519.getPublicKey(seed)),
+    sign: async (message) => Buffer.from(ed25519.sign(message, seed)),
+  };
+}
+
+/**
+ * Build the deep hash a data item signature is computed over
+ */
+export function getDataItemSignatureData(
+  signatureType: number,
+  owner: Buffer,
+  target: Buffer,
+  anchor: Buffer,
+  rawTags: Buffer,
+  data: Buffer,
+): Buffer {
+  return deepHash([
+    Buffer.from('dataitem'),
+    Buffer.from('1'),
+    Buffer.from(signatureType.toString()),
+    owner,
+    target,
+    anchor,
+    rawTags,
+    data,
+  ]);
+}
+
+/**
+ * Sign a data item and serialize it to the ANS-104 binary layout
+ */
+export async function createSignedDataItem(
+  signer: DataItemSigner,
+  attributes: DataItemAttributes,
+): Promise<SignedDataItem> {
+  validateAttributes(attributes);
+
+  const target = attributes.target ? base64UrlToBuffer(attributes.target) : Buffer.alloc(0);
+  const anchor = attributes.anchor ? base64UrlToBuffer(attributes.anchor) : Buffer.alloc(0);
+  const rawTags = serializeTags(attributes.tags);
+
+  const signature = await signer.sign(
+    getDataItemSignatureData(
+      signer.signatureType,
+      signer.owner,
+      target,
+      anchor,
+      rawTags,
+      attributes.data,
+    ),
+  );
+
+  const signatureType = Buffer.alloc(2);
+  signatureType.writeUInt16LE(signer.signatureType);
+
+  const binary = Buffer.concat([
+    signatureType,
+    signature,
+    signer.owner,
+    Buffer.from([target.byteLength > 0 ? 1 : 0]),
+    target,
+    Buffer.from([anchor.byteLength > 0 ? 1 : 0]),
+    anchor,
+    writeUInt64LE(attributes.tags.length),
+    writeUInt64LE(rawTags.byteLength),
+    rawTags,
+    attributes.data,
+  ]);
+
+  const id = signatureToId(signature);
+  return {
+    id,
+    binary,
+    header: {
+      id,
+      signatureType: signer.signatureType,
+      signature: bufferToBase64Url(signature),
+      owner: bufferToBase64Url(signer.owner),
+      target: attributes.target || '',
+      anchor: attributes.anchor || '',
+      tags: encodeTags(attributes.tags),
+    },
+  };
+}
+
+/**
+ * Serialize signed data items into an ANS-104 bundle
+ *
+ * The header holds the item count followed by a (size, ID) pair per item, each
+ * number encoded as a 32-byte little-endian integer, and is followed by the
+ * item binaries in the same order.
+ */
+export function serializeBundle(items: SignedDataItem[]): Buffer {
+  return Buffer.concat([
+    writeUInt64LE(items.length, 32),
+    ...items.flatMap((item) => [
+      writeUInt64LE(item.binary.byteLength, 32),
+      base64UrlToBuffer(item.id),
+    ]),
+    ...items.map((item) => item.binary),
+  ]);
+}
+
+/**
+ * Decode the Avro tag array of a data item
+ */
+export function parseTags(rawTags: Buffer): { name: string; value: string }[] {
+  const tags: { name: string; value: string }[] = [];
+  if (rawTags.byteLength === 0) {
+    return tags;
+  }
+
+  const cursor = { offset: 0 };
+  let count = readLong(rawTags, cursor);
+  while (count !== 0) {
+    if (count < 0) {
+      // Negative block counts are followed by the block size in bytes
+      count = -count;
+      readLong(rawTags, cursor);
+    }
+    for (let i = 0; i < count; i++) {
+      tags.push({
+        name: readBytes(rawTags, cursor).toString(),
+        value: readBytes(rawTags, cursor).toString(),
+      });
+    }
+    count = readLong(rawTags, cursor);
+  }
+  return tags;
+}
+
+function getSignatureConfig(signatureType: number) {
+  const config = Object.values(SIGNATURE_TYPES).find((entry) => entry.type === signatureType);
+  if (!config) {
+    throw new Error(`Unsupported signature type ${signatureType}`);
+  }
+  return config;
+}
+
+/**
+ * Parse an ANS-104 binary data item
+ */
+export function parseDataItem(binary: Buffer): ParsedDataItem {
+  const truncated = () => new Error('Data item is truncated');
+  if (binary.byteLength < 2) {
+    throw truncated();
+  }
+
+  const signatureType = binary.readUInt16LE(0);
+  const { signatureLength, ownerLength } = getSignatureConfig(signatureType);
+
+  let offset = 2;
+  const take = (length: number): Buffer => {
+    if (offset + length > binary.byteLength) {
+      throw truncated();
+    }
+    const bytes = binary.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const signature = take(signatureLength);
+  const owner = take(ownerLength);
+  const target = take(1)[0] === 1 ? take(DATA_ITEM.TARGET_LENGTH) : Buffer.alloc(0);
+  const anchor = take(1)[0] === 1 ? take(DATA_ITEM.ANCHOR_LENGTH) : Buffer.alloc(0);
+  const tagCount = Number(take(8).readBigUInt64LE());
+  const rawTags = take(Number(take(8).readBigUInt64LE()));
+  const tags = parseTags(rawTags);
+  if (tags.length !== tagCount) {
+    throw new Error(`Data item declares ${tagCount} tags but contains ${tags.length}`);
+  }
+
+  return {
+    id: signatureToId(signature),
+    signatureType,
+    signature,
+    owner,
+    target,
+    anchor,
+    tags,
+    rawTags,
+    data: binary.subarray(offset),
+  };
+}
+
+/**
+ * Verify a parsed data item's signature against its owner key
+ */
+export async function verifyDataItemSignature(item: ParsedDataItem): Promise<boolean> {
+  const signatureData = getDataItemSignatureData(
+    item.signatureType,
+    item.owner,
+    item.target,
+    item.anchor,
+    item.rawTags,
+    item.data,
+  );
+
+  switch (item.signatureType) {
+    case SIGNATURE_TYPES.ARWEAVE.type:
+      return verifySignature(
+        signatureData,
+        bufferToBase64Url(item.signature),
+        bufferToBase64Url(item.owner),
+      );
+    case SIGNATURE_TYPES.SOLANA.type:
+      try {
+        return ed25519.verify(item.signature, signatureData, item.owner);
+      } catch {
+        return false;
+      }
+    case SIGNATURE_TYPES.ETHEREUM.type:
+      try {
+        return secp256k1.verify(
+          item.signature.subarray(0, 64),
+          hashEthereumMessage(signatureData),
+          item.owner,
+        );
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Verify a parsed data item's signature and that its ID matches the signature
+ */
+export async function verifyDataItem(item: ParsedDataItem): Promise<boolean> {
+  return item.id === signatureToId(item.signature) && verifyDataItemSignature(item);
+}
+
+/**
+ * Derive the address of a data item owner (SHA-256 of the raw owner key)
+ */
+export function getOwnerAddress(owner: Buffer): string {
+  return bufferToBase64Url(createHash('sha256').update(owner).digest());
+}
+
+/**
+ * Format an owner key as an address in its own chain's notation: an Arweave
+ * address, a checksummed Ethereum address or a Base58 Solana public key
+ */
+export function getNativeAddress(signatureType: number, owner: Buffer): string {
+  switch (signatureType) {
+    case SIGNATURE_TYPES.ETHEREUM.type: {
+      const address = Buffer.from(keccak_256(owner.subarray(1)))
+        .subarray(-20)
+        .toString('hex');
+      const hash = Buffer.from(keccak_256(address)).toString('hex');
+      return `0x${[...address]
+        .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+        .join('')}`;
+    }
+    case SIGNATURE_TYPES.SOLANA.type:
+      return bufferToBase58(owner);
+    default:
+      return getOwnerAddress(owner);
+  }
+}
+
+/**
+ * Parse an ANS-104 bundle into its data items
+ *
+ * Each item takes the ID listed for it in the bundle header, so a header that
+ * does not match the item's signature fails verification.
+ */
+export function parseBundle(bundle: Buffer): ParsedDataItem[] {
+  if (bundle.byteLength < 32) {
+    throw new Error('Bundle is truncated');
+  }
+
+  const count = Number(bundle.readBigUInt64LE(0));
+  const headerLength = 32 + count * 64;
+  if (bundle.byteLength < headerLength) {
+    throw new Error('Bundle header is truncated');
+  }
+
+  const items: ParsedDataItem[] = [];
+  let offset = headerLength;
+  for (let i = 0; i < count; i++) {
+    const entry = 32 + i * 64;
+    const size = Number(bundle.readBigUInt64LE(entry));
+    if (offset + size > bundle.byteLength) {
+      throw new Error(`Bundle item ${i} is truncated`);
+    }
+    items.push({
+      ...parseDataItem(bundle.subarray(offset, offset + size)),
+      id: bufferToBase64Url(bundle.subarray(entry + 32, entry + 64)),
+    });
+    offset += size;
+  }
+  return items;
+}
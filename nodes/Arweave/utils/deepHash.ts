@@ -0,0 +1,31 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash } from 'crypto';
+import type { DeepHashChunk } from '../types';
+
+function sha384(data: Uint8Array): Buffer {
+  return createHash('sha384').update(data).digest();
+}
+
+/**
+ * Compute the Arweave deep hash of a nested list of byte arrays
+ *
+ * This is the structure signed by format 2 transactions and ANS-104 data items.
+ */
+export function deepHash(data: DeepHashChunk): Buffer {
+  if (Array.isArray(data)) {
+    const tag = Buffer.concat([Buffer.from('list'), Buffer.from(data.length.toString())]);
+    return data.reduce<Buffer>(
+      (acc, chunk) => sha384(Buffer.concat([acc, deepHash(chunk)])),
+      sha384(tag),
+    );
+  }
+
+  const tag = Buffer.concat([Buffer.from('blob'), Buffer.from(data.byteLength.toString())]);
+  return sha384(Buffer.concat([sha384(tag), sha384(data)]));
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  GraphqlDialect,
+  GraphQLNode,
+  QueryOptions,
+  TransactionField,
+  ValueRange,
+} from '../types';
+import { GRAPHQL_DIALECTS } from '../constants';
+
+// Selection set of each transaction node field
+const FIELD_SELECTIONS: Record<TransactionField, string> = {
+  id: 'id',
+  anchor: 'anchor',
+  signature: 'signature',
+  recipient: 'recipient',
+  owner: 'owner { address key }',
+  fee: 'fee { winston ar }',
+  quantity: 'quantity { winston ar }',
+  data: 'data { size type }',
+  tags: 'tags { name value }',
+  block: 'block { id timestamp height previous }',
+  parent: 'parent { id }',
+  bundledIn: 'bundledIn { id }',
+};
+
+export const TRANSACTION_FIELDS = Object.keys(FIELD_SELECTIONS) as TransactionField[];
+
+// Filters passed as query variables, with their GraphQL types
+const FILTER_VARIABLES = {
+  ids: '[ID!]',
+  owners: '[String!]',
+  recipients: '[String!]',
+  tags: '[TagFilter!]',
+  bundledIn: '[ID!]',
+  block: 'BlockFilter',
+} as const;
+
+// Schema details read by the GRAPHQL_QUERIES.DIALECT introspection query
+export interface GraphqlSchemaInfo {
+  __schema?: { queryType?: { fields?: { name: string; args: { name: string }[] }[] } };
+  tagFilter?: { inputFields?: { name: string }[] | null } | null;
+  blockFilter?: { inputFields?: { name: string }[] | null } | null;
+}
+
+/**
+ * Tell the GraphQL dialect of an endpoint from its schema
+ *
+ * Capabilities are read from the schema itself; the name only labels the closest match.
+ */
+export function detectGraphqlDialect(schema: GraphqlSchemaInfo): GraphqlDialect {
+  const inputFields = (type: GraphqlSchemaInfo['tagFilter']) =>
+    (type?.inputFields ?? []).map((field) => field.name);
+  const transactions = schema.__schema?.queryType?.fields?.find(
+    (field) => field.name === 'transactions',
+  );
+
+  const tagMatch = inputFields(schema.tagFilter).includes('match');
+  const ingestedAt = !!transactions?.args.some((arg) => arg.name === 'ingested_at');
+  const blockTimestamp = inputFields(schema.blockFilter).includes('timestamp');
+  const name = tagMatch || ingestedAt ? 'ario' : blockTimestamp ? 'goldsky' : 'arweave';
+
+  return { name, tagMatch, ingestedAt, blockTimestamp };
+}
+
+/**
+ * Build a transactions query that only declares the filters in use
+ *
+ * Gateways reject arguments they do not know, so unused filters are left out entirely
+ * and filters the dialect lacks are refused, or checked on each page where possible.
+ * The id is always selected, as are the fields the page checks need.
+ */
+export function buildTransactionsQuery(
+  options: QueryOptions,
+  fields: TransactionField[] = TRANSACTION_FIELDS,
+  dialect: GraphqlDialect = GRAPHQL_DIALECTS.arweave,
+): { query: string; variables: Record<string, unknown> } {
+  if (!dialect.tagMatch && options.tags?.some((tag) => tag.match && tag.match !== 'EXACT')) {
+    throw new Error(`Tag match modes are not supported by the ${dialect.name} GraphQL endpoint`);
+  }
+  const { ingestedAt, blockTime } = options;
+  const hasIngestedAt =
+    !!ingestedAt && (ingestedAt.min !== undefined || ingestedAt.max !== undefined);
+  if (hasIngestedAt && !dialect.ingestedAt) {
+    throw new Error(
+      `Ingestion time filters are not supported by the ${dialect.name} GraphQL endpoint`,
+    );
+  }
+  const filters =
+    blockTime && dialect.blockTimestamp
+      ? { ...options, block: { ...options.block, timestamp: blockTime } }
+      : options;
+
+  const declarations = ['$first: Int', '$after: String', '$sort: SortOrder'];
+  const args = ['first: $first', 'after: $after', 'sort: $sort'];
+  const variables: Record<string, unknown> = {
+    first: options.first,
+    after: options.after,
+    sort: options.sort,
+  };
+
+  for (const [name, type] of Object.entries(FILTER_VARIABLES)) {
+    const value = filters[name as keyof typeof FILTER_VARIABLES];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    declarations.push(`$${name}: ${type}`);
+    args.push(`${name}: $${name}`);
+    variables[name] = value;
+  }
+
+  // The ingestion filter's input type is named differently across gateways, so it is inlined
+  if (ingestedAt && hasIngestedAt) {
+    const bounds = (['min', 'max'] as const)
+      .filter((bound) => ingestedAt[bound] !== undefined)
+      .map((bound) => `${bound}: ${Math.floor(ingestedAt[bound] as number)}`);
+    args.push(`ingested_at: { ${bounds.join(', ')} }`);
+  }
+
+  const selected = new Set<TransactionField>(['id', ...fields]);
+  if (options.fee) selected.add('fee');
+  if (options.quantity) selected.add('quantity');
+  if (options.dataSize) selected.add('data');
+  if (blockTime && !dialect.blockTimestamp) selected.add('block');
+
+  const query = `query Transactions(${declarations.join(', ')}) {
+  transactions(${args.join(', ')}) {
+    pageInfo { hasNextPage }
+    edges { cursor node { ${[...selected].map((field) => FIELD_SELECTIONS[field]).join(' ')} } }
+  }
+}`;
+
+  return { query, variables };
+}
+
+function isWithin(value: string | undefined, range: ValueRange | undefined): boolean {
+  if (!range) {
+    return true;
+  }
+  if (value === undefined) {
+    return false;
+  }
+  const amount = BigInt(value);
+  return (
+    (range.min === undefined || amount >= BigInt(range.min)) &&
+    (range.max === undefined || amount <= BigInt(range.max))
+  );
+}
+
+/**
+ * Whether a query has bounds that are checked on each page instead of by the endpoint
+ */
+export function hasPageBounds(
+  options: QueryOptions,
+  dialect: GraphqlDialect = GRAPHQL_DIALECTS.arweave,
+): boolean {
+  return (
+    !!(options.fee || options.quantity || options.dataSize) ||
+    (!!options.blockTime && !dialect.blockTimestamp)
+  );
+}
+
+/**
+ * Whether a transaction lies within the bounds of a query the endpoint cannot apply
+ *
+ * Covers fee, quantity and data size, and the block time where the dialect has no
+ * timestamp filter. Pending transactions have no block time and never match one.
+ */
+export function matchesValueBounds(
+  node: GraphQLNode,
+  options: QueryOptions,
+  dialect: GraphqlDialect = GRAPHQL_DIALECTS.arweave,
+): boolean {
+  const blockTime =
+    options.blockTime && !dialect.blockTimestamp
+      ? {
+          min: options.blockTime.min?.toString(),
+          max: options.blockTime.max?.toString(),
+        }
+      : undefined;
+  return (
+    isWithin(node.fee?.winston, options.fee) &&
+    isWithin(node.quantity?.winston, options.quantity) &&
+    isWithin(node.data?.size, options.dataSize) &&
+    isWithin(node.block?.timestamp?.toString(), blockTime)
+  );
+}
@@ -6,8 +6,21 @@
  */
 
 import CryptoJS from 'crypto-js';
+import {
+  constants,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPair,
+  sign,
+  verify,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
 import type { ArweaveJWK, ArweaveTag } from '../types';
-import { ARWEAVE_CONSTANTS } from '../constants';
+import { ARWEAVE_CONSTANTS, ERROR_MESSAGES } from '../constants';
+
+// Arweave signs with RSA-PSS and SHA-256. Signatures use a 32-byte salt like arweave-js in
+// the browser; verification accepts any salt, as arweave-js on Node.js signs with the maximum.
+const RSA_PSS_SALT_LENGTH = 32;
 
 /**
  * Convert Base64URL to standard Base64
@@ -61,6 +74,44 @@ export function base64UrlToBuffer(base64Url: string): Buffer {
   return Buffer.from(base64, 'base64');
 }
 
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Convert Buffer to Base58 (Bitcoin alphabet, as used for Solana keys)
+ */
+export function bufferToBase58(buffer: Buffer): string {
+  const base = BigInt(58);
+  let value = BigInt(`0x${buffer.toString('hex') || '0'}`);
+  let encoded = '';
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % base)] + encoded;
+    value /= base;
+  }
+  const leadingZeros = buffer.findIndex((byte) => byte !== 0);
+  return '1'.repeat(leadingZeros === -1 ? buffer.length : leadingZeros) + encoded;
+}
+
+/**
+ * Convert Base58 to Buffer
+ */
+export function base58ToBuffer(base58: string): Buffer {
+  const base = BigInt(58);
+  let value = BigInt(0);
+  for (const char of base58) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid Base58 character "${char}"`);
+    }
+    value = value * base + BigInt(digit);
+  }
+  const hex = value > BigInt(0) ? value.toString(16) : '';
+  const leadingZeros = base58.length - base58.replace(/^1+/, '').length;
+  return Buffer.concat([
+    Buffer.alloc(leadingZeros),
+    Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex'),
+  ]);
+}
+
 /**
  * Convert Winston to AR
  */
@@ -74,9 +125,33 @@ export function winstonToAR(winston: string | bigint): string {
  * Convert AR to Winston
  */
 export function arToWinston(ar: string | number): string {
-  const arNum = typeof ar === 'string' ? parseFloat(ar) : ar;
-  const winston = BigInt(Math.floor(arNum * Number(ARWEAVE_CONSTANTS.WINSTON_PER_AR)));
-  return winston.toString();
+  const amount = typeof ar === 'number' ? ar.toFixed(12) : ar.trim();
+  if (!/^-?\d*(\.\d*)?$/.test(amount) || !/\d/.test(amount)) {
+    throw new Error(`Invalid AR amount "${ar}" - must be a plain decimal number`);
+  }
+  // Parse the decimal digits directly; float multiplication loses winston (0.57 AR -> ...999)
+  const [whole, fraction = ''] = amount.replace(/^-/, '').split('.');
+  const winston =
+    BigInt(whole || '0') * ARWEAVE_CONSTANTS.WINSTON_PER_AR +
+    BigInt(fraction.padEnd(12, '0').slice(0, 12));
+  return (amount.startsWith('-') ? -winston : winston).toString();
+}
+
+/**
+ * Parse a user-entered amount in AR or winston to a positive winston quantity
+ */
+export function parseAmount(amount: string, unit: 'ar' | 'winston'): string {
+  const pattern = unit === 'winston' ? /^\d+$/ : /^\d+(\.\d{0,12})?$/;
+  if (!pattern.test(amount)) {
+    throw new Error(
+      `Invalid amount "${amount}" - must be a positive ${unit === 'winston' ? 'integer' : 'decimal with at most 12 places'}`,
+    );
+  }
+  const quantity = unit === 'winston' ? BigInt(amount).toString() : arToWinston(amount);
+  if (quantity === '0') {
+    throw new Error('Amount must be greater than zero');
+  }
+  return quantity;
 }
 
 /**
@@ -129,6 +204,28 @@ export function deriveAddressFromJwk(jwk: ArweaveJWK): string {
   return base64ToBase64Url(hashBase64);
 }
 
+/**
+ * Generate a new RSA-4096 wallet JWK
+ */
+export function generateJwk(): Promise<ArweaveJWK> {
+  return new Promise((resolve, reject) => {
+    generateKeyPair(
+      'rsa',
+      {
+        modulusLength: ARWEAVE_CONSTANTS.WALLET.MODULUS_LENGTH,
+        publicExponent: ARWEAVE_CONSTANTS.WALLET.PUBLIC_EXPONENT,
+      },
+      (error, _publicKey, privateKey) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(privateKey.export({ format: 'jwk' }) as ArweaveJWK);
+      },
+    );
+  });
+}
+
 /**
  * Encode tags to Base64URL
  */
@@ -224,12 +321,23 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Retry utility with exponential backoff
+ *
+ * maxRetries counts every attempt. shouldRetry stops early on errors that will not go away,
+ * and a delay from retryAfter (such as a Retry-After header) is waited instead when longer.
+ * An error asking for more than maxDelay is thrown rather than retried early.
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
   baseDelay = 1000,
+  options: {
+    maxDelay?: number;
+    jitter?: boolean;
+    shouldRetry?: (error: unknown) => boolean;
+    retryAfter?: (error: unknown) => number | undefined;
+  } = {},
 ): Promise<T> {
+  const { maxDelay = Infinity, jitter = false, shouldRetry, retryAfter } = options;
   let lastError: Error | undefined;
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -237,10 +345,17 @@ export async function retryWithBackoff<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
-      if (attempt < maxRetries - 1) {
-        const delay = baseDelay * Math.pow(2, attempt);
-        await sleep(delay);
+      if (attempt === maxRetries - 1 || (shouldRetry && !shouldRetry(error))) {
+        break;
+      }
+      const backoff = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+      // Full jitter keeps clients that failed together from retrying together
+      const delay = jitter ? Math.random() * backoff : backoff;
+      const requested = retryAfter?.(error) ?? 0;
+      if (requested > maxDelay) {
+        break;
       }
+      await sleep(Math.max(delay, requested));
     }
   }
   
@@ -306,54 +421,62 @@ export function createSignatureMessage(
   return parts.join('');
 }
 
+/**
+ * Build a Node.js private key object from a JWK
+ */
+function jwkToPrivateKey(jwk: ArweaveJWK): KeyObject {
+  if (!jwk.d || !jwk.p || !jwk.q || !jwk.dp || !jwk.dq || !jwk.qi) {
+    throw new Error(`${ERROR_MESSAGES.SIGNING_ERROR}: wallet JWK does not contain a private key`);
+  }
+  return createPrivateKey({ key: { ...jwk }, format: 'jwk' });
+}
+
+/**
+ * Build a Node.js public key object from an RSA modulus (n) and exponent (e)
+ */
+function modulusToPublicKey(publicKeyN: string, publicKeyE = 'AQAB'): KeyObject {
+  return createPublicKey({ key: { kty: 'RSA', n: publicKeyN, e: publicKeyE }, format: 'jwk' });
+}
+
 /**
  * Sign a message with JWK
+ *
+ * Produces an RSA-PSS signature (SHA-256, salt length 32), the scheme used for
+ * Arweave transactions and accepted by arweave-js and ArConnect.
  */
-export async function signMessage(jwk: ArweaveJWK, message: string): Promise<string> {
-  // Create SHA-256 hash of message
-  const messageHash = CryptoJS.SHA256(message);
-  const hashBase64 = CryptoJS.enc.Base64.stringify(messageHash);
-  
-  // In a real implementation, this would use RSA-PSS signing
-  // For now, we create a signature placeholder that includes the hash
-  // Full implementation would require Web Crypto API or a proper RSA library
-  const signatureData = {
-    hash: hashBase64,
-    publicKey: jwk.n.substring(0, 20),
-    algorithm: 'RSA-PSS-SHA256',
-  };
-  
-  const signatureJson = JSON.stringify(signatureData);
-  return stringToBase64Url(signatureJson);
+export async function signMessage(
+  jwk: ArweaveJWK,
+  message: string | Uint8Array,
+): Promise<string> {
+  const privateKey = jwkToPrivateKey(jwk);
+  const signature = sign('sha256', Buffer.from(message), {
+    key: privateKey,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: RSA_PSS_SALT_LENGTH,
+  });
+  return bufferToBase64Url(signature);
 }
 
 /**
  * Verify a signature
  */
 export async function verifySignature(
-  message: string,
+  message: string | Uint8Array,
   signature: string,
   publicKeyN: string,
 ): Promise<boolean> {
   try {
-    // Decode signature
-    const signatureJson = base64UrlToString(signature);
-    const signatureData = JSON.parse(signatureJson);
-    
-    // Verify hash matches
-    const messageHash = CryptoJS.SHA256(message);
-    const hashBase64 = CryptoJS.enc.Base64.stringify(messageHash);
-    
-    if (signatureData.hash !== hashBase64) {
-      return false;
-    }
-    
-    // Verify public key prefix matches
-    if (!publicKeyN.startsWith(signatureData.publicKey)) {
-      return false;
-    }
-    
-    return true;
+    const publicKey = modulusToPublicKey(publicKeyN);
+    return verify(
+      'sha256',
+      Buffer.from(message),
+      {
+        key: publicKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_AUTO,
+      },
+      base64UrlToBuffer(signature),
+    );
   } catch {
     return false;
   }
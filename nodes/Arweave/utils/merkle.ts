@@ -0,0 +1,251 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  MerkleBranch,
+  MerkleChunk,
+  MerkleLeaf,
+  MerkleNode,
+  MerkleProof,
+  TransactionChunks,
+} from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+
+const { MAX_SIZE, MIN_SIZE, NOTE_SIZE } = ARWEAVE_CONSTANTS.CHUNK;
+
+function sha256(data: Uint8Array | Uint8Array[]): Buffer {
+  const input = Array.isArray(data) ? Buffer.concat(data) : data;
+  return createHash('sha256').update(input).digest();
+}
+
+/**
+ * Encode an integer as a 32-byte big-endian note
+ */
+export function intToBuffer(note: number): Buffer {
+  const buffer = Buffer.alloc(NOTE_SIZE);
+  let remaining = note;
+  for (let i = buffer.length - 1; i >= 0; i--) {
+    const byte = remaining % 256;
+    buffer[i] = byte;
+    remaining = (remaining - byte) / 256;
+  }
+  return buffer;
+}
+
+/**
+ * Compute the byte ranges Arweave nodes split data of a given size into
+ *
+ * Chunks are 256 KiB, except that a trailing chunk smaller than 32 KiB is
+ * avoided by splitting the last two chunks evenly.
+ */
+export function getChunkRanges(size: number): { minByteRange: number; maxByteRange: number }[] {
+  const ranges: { minByteRange: number; maxByteRange: number }[] = [];
+  let rest = size;
+  let cursor = 0;
+
+  while (rest >= MAX_SIZE) {
+    let chunkSize = MAX_SIZE;
+    const nextChunkSize = rest - MAX_SIZE;
+    if (nextChunkSize > 0 && nextChunkSize < MIN_SIZE) {
+      chunkSize = Math.ceil(rest / 2);
+    }
+
+    ranges.push({ minByteRange: cursor, maxByteRange: cursor + chunkSize });
+    cursor += chunkSize;
+    rest -= chunkSize;
+  }
+
+  ranges.push({ minByteRange: cursor, maxByteRange: cursor + rest });
+  return ranges;
+}
+
+/**
+ * Split data into chunks the same way Arweave nodes do
+ */
+export function chunkData(data: Buffer): MerkleChunk[] {
+  return getChunkRanges(data.byteLength).map((range) => ({
+    dataHash: sha256(data.subarray(range.minByteRange, range.maxByteRange)),
+    ...range,
+  }));
+}
+
+/**
+ * Read a byte stream of known size and yield it one chunk at a time
+ */
+export async function* readChunks(
+  source: AsyncIterable<Buffer | Uint8Array> | Iterable<Buffer | Uint8Array>,
+  size: number,
+): AsyncGenerator<Buffer> {
+  const lengths = getChunkRanges(size).map((range) => range.maxByteRange - range.minByteRange);
+  const pending: Buffer[] = [];
+  let offset = 0;
+  let pendingLength = 0;
+  let index = 0;
+
+  // Slices chunks out of the pending pieces, copying only when a chunk spans several of them
+  const takeChunk = (length: number): Buffer => {
+    const parts: Buffer[] = [];
+    let needed = length;
+    while (needed > 0) {
+      const piece = pending[0];
+      const taken = Math.min(piece.byteLength - offset, needed);
+      parts.push(piece.subarray(offset, offset + taken));
+      offset += taken;
+      needed -= taken;
+      if (offset === piece.byteLength) {
+        pending.shift();
+        offset = 0;
+      }
+    }
+    pendingLength -= length;
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts, length);
+  };
+
+  for await (const piece of source) {
+    if (piece.byteLength === 0) {
+      continue;
+    }
+    pending.push(
+      Buffer.isBuffer(piece)
+        ? piece
+        : Buffer.from(piece.buffer, piece.byteOffset, piece.byteLength),
+    );
+    pendingLength += piece.byteLength;
+
+    while (index < lengths.length && lengths[index] > 0 && pendingLength >= lengths[index]) {
+      yield takeChunk(lengths[index++]);
+    }
+  }
+
+  for (; index < lengths.length; index++) {
+    if (pendingLength < lengths[index]) {
+      throw new Error(`Data stream ended early: expected ${size} bytes`);
+    }
+    yield takeChunk(lengths[index]);
+  }
+
+  if (pendingLength > 0) {
+    throw new Error(`Data stream is longer than the expected ${size} bytes`);
+  }
+}
+
+/**
+ * Hash a byte stream of known size into Merkle chunks without buffering it whole
+ */
+export async function hashChunks(
+  source: AsyncIterable<Buffer | Uint8Array> | Iterable<Buffer | Uint8Array>,
+  size: number,
+): Promise<MerkleChunk[]> {
+  const ranges = getChunkRanges(size);
+  const chunks: MerkleChunk[] = [];
+  let index = 0;
+  for await (const chunk of readChunks(source, size)) {
+    chunks.push({ dataHash: sha256(chunk), ...ranges[index++] });
+  }
+  return chunks;
+}
+
+function generateLeaves(chunks: MerkleChunk[]): MerkleLeaf[] {
+  return chunks.map((chunk) => ({
+    type: 'leaf',
+    id: sha256([sha256(chunk.dataHash), sha256(intToBuffer(chunk.maxByteRange))]),
+    dataHash: chunk.dataHash,
+    minByteRange: chunk.minByteRange,
+    maxByteRange: chunk.maxByteRange,
+  }));
+}
+
+function hashBranch(left: MerkleNode, right?: MerkleNode): MerkleNode {
+  if (!right) {
+    return left;
+  }
+  const branch: MerkleBranch = {
+    type: 'branch',
+    id: sha256([sha256(left.id), sha256(right.id), sha256(intToBuffer(left.maxByteRange))]),
+    byteRange: left.maxByteRange,
+    maxByteRange: right.maxByteRange,
+    leftChild: left,
+    rightChild: right,
+  };
+  return branch;
+}
+
+function buildLayers(nodes: MerkleNode[]): MerkleNode {
+  if (nodes.length < 2) {
+    return nodes[0];
+  }
+  const nextLayer: MerkleNode[] = [];
+  for (let i = 0; i < nodes.length; i += 2) {
+    nextLayer.push(hashBranch(nodes[i], nodes[i + 1]));
+  }
+  return buildLayers(nextLayer);
+}
+
+/**
+ * Build the Merkle tree for a set of chunks and return its root node
+ */
+export function buildMerkleTree(chunks: MerkleChunk[]): MerkleNode {
+  return buildLayers(generateLeaves(chunks));
+}
+
+/**
+ * Compute the data_root of a payload as raw bytes (empty for empty data)
+ */
+export function computeDataRoot(data: Buffer): Buffer {
+  if (data.byteLength === 0) {
+    return Buffer.alloc(0);
+  }
+  return buildMerkleTree(chunkData(data)).id;
+}
+
+function resolveBranchProofs(node: MerkleNode, proof: Buffer): MerkleProof[] {
+  if (node.type === 'leaf') {
+    return [
+      {
+        offset: node.maxByteRange - 1,
+        proof: Buffer.concat([proof, node.dataHash, intToBuffer(node.maxByteRange)]),
+      },
+    ];
+  }
+
+  const partialProof = Buffer.concat([
+    proof,
+    node.leftChild.id,
+    node.rightChild.id,
+    intToBuffer(node.byteRange),
+  ]);
+  return [
+    ...resolveBranchProofs(node.leftChild, partialProof),
+    ...resolveBranchProofs(node.rightChild, partialProof),
+  ];
+}
+
+/**
+ * Generate the data_path proof of every chunk under a Merkle root
+ */
+export function generateProofs(root: MerkleNode): MerkleProof[] {
+  return resolveBranchProofs(root, Buffer.alloc(0));
+}
+
+/**
+ * Compute the data_root, uploadable chunks and their proofs for a set of chunk hashes
+ */
+export function generateTransactionChunks(chunks: MerkleChunk[], dataSize: number): TransactionChunks {
+  const root = buildMerkleTree(chunks);
+  const proofs = generateProofs(root);
+  const uploadable = [...chunks];
+
+  // Arweave nodes do not accept the zero-length chunk left when data is a multiple of 256 KiB
+  const lastChunk = uploadable[uploadable.length - 1];
+  if (lastChunk.maxByteRange - lastChunk.minByteRange === 0) {
+    uploadable.pop();
+    proofs.pop();
+  }
+
+  return { dataRoot: root.id, dataSize, chunks: uploadable, proofs };
+}
@@ -0,0 +1,116 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash } from 'crypto';
+import type { ArweaveJWK, ArweaveTransaction, TransactionAttributes } from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+import { deepHash } from './deepHash';
+import { computeDataRoot } from './merkle';
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  encodeTags,
+  signMessage,
+  verifySignature,
+} from './helpers';
+
+/**
+ * Create an unsigned format 2 transaction owned by the given wallet
+ *
+ * When prepared chunks are given, the data is left out of the transaction body
+ * and must be uploaded separately through the chunk endpoint.
+ */
+export function createTransaction(
+  jwk: ArweaveJWK,
+  attributes: TransactionAttributes,
+): ArweaveTransaction {
+  const data = attributes.data || Buffer.alloc(0);
+  const { chunks } = attributes;
+  return {
+    format: ARWEAVE_CONSTANTS.TX_FORMAT,
+    id: '',
+    last_tx: attributes.lastTx,
+    owner: jwk.n,
+    tags: encodeTags(attributes.tags),
+    target: attributes.target || '',
+    quantity: attributes.quantity || '0',
+    data: chunks ? '' : bufferToBase64Url(data),
+    data_size: (chunks ? chunks.dataSize : data.byteLength).toString(),
+    data_root: bufferToBase64Url(chunks ? chunks.dataRoot : computeDataRoot(data)),
+    reward: attributes.reward,
+    signature: '',
+  };
+}
+
+/**
+ * Build the message a transaction signature is computed over
+ *
+ * Format 1 transactions sign the concatenated fields with the data inline;
+ * format 2 transactions sign a deep hash that commits to the data through data_root.
+ */
+export function getSignatureData(transaction: ArweaveTransaction): Buffer {
+  if (transaction.format === 1) {
+    return Buffer.concat([
+      base64UrlToBuffer(transaction.owner),
+      base64UrlToBuffer(transaction.target),
+      base64UrlToBuffer(transaction.data),
+      Buffer.from(transaction.quantity),
+      Buffer.from(transaction.reward),
+      base64UrlToBuffer(transaction.last_tx),
+      ...transaction.tags.flatMap((tag) => [
+        base64UrlToBuffer(tag.name),
+        base64UrlToBuffer(tag.value),
+      ]),
+    ]);
+  }
+
+  return deepHash([
+    Buffer.from(transaction.format.toString()),
+    base64UrlToBuffer(transaction.owner),
+    base64UrlToBuffer(transaction.target),
+    Buffer.from(transaction.quantity),
+    Buffer.from(transaction.reward),
+    base64UrlToBuffer(transaction.last_tx),
+    transaction.tags.map((tag) => [base64UrlToBuffer(tag.name), base64UrlToBuffer(tag.value)]),
+    Buffer.from(transaction.data_size),
+    base64UrlToBuffer(transaction.data_root),
+  ]);
+}
+
+/**
+ * Derive a transaction or data item ID from its signature
+ */
+export function signatureToId(signature: Buffer): string {
+  return bufferToBase64Url(createHash('sha256').update(signature).digest());
+}
+
+/**
+ * Sign a transaction and set its signature and ID
+ */
+export async function signTransaction(
+  jwk: ArweaveJWK,
+  transaction: ArweaveTransaction,
+): Promise<ArweaveTransaction> {
+  const signature = await signMessage(jwk, getSignatureData(transaction));
+  return {
+    ...transaction,
+    signature,
+    id: signatureToId(base64UrlToBuffer(signature)),
+  };
+}
+
+/**
+ * Verify a transaction signature against its owner key
+ */
+export async function verifyTransactionSignature(
+  transaction: ArweaveTransaction,
+): Promise<boolean> {
+  if (!transaction.signature || !transaction.owner) {
+    return false;
+  }
+  return verifySignature(getSignatureData(transaction), transaction.signature, transaction.owner);
+}
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { ArweaveBlock, GraphQLEdge, HeldTransaction, RecentBlock } from '../types';
+import { ARWEAVE_CONSTANTS } from '../constants';
+
+type ItemBlock = { height: number } | null | undefined;
+
+/**
+ * Count the confirmations of a block; the block at the tip has one
+ */
+export function getConfirmations(blockHeight: number, currentHeight: number): number {
+  return Math.max(currentHeight - blockHeight + 1, 0);
+}
+
+/**
+ * Release the held transactions that reached the confirmation depth
+ *
+ * Released and dropped transactions are removed from the held set. A transaction still
+ * unmined after the anchor depth can no longer be mined and is dropped, reported as a
+ * dropped item like those of the watch list.
+ */
+export function releaseConfirmed(
+  held: Record<string, HeldTransaction>,
+  currentHeight: number,
+  minConfirmations: number,
+): { released: IDataObject[]; dropped: IDataObject[] } {
+  const released: IDataObject[] = [];
+  const dropped: IDataObject[] = [];
+  for (const [id, { item, seenAt }] of Object.entries(held)) {
+    const block = item.block as ItemBlock;
+    const blocksWaited = currentHeight - seenAt;
+    if (block) {
+      if (getConfirmations(block.height, currentHeight) >= minConfirmations) {
+        released.push(item);
+        delete held[id];
+      }
+    } else if (blocksWaited > ARWEAVE_CONSTANTS.ANCHOR_DEPTH) {
+      dropped.push({ event: 'dropped', id, blocksWaited });
+      delete held[id];
+    }
+  }
+  return { released, dropped };
+}
+
+/**
+ * Shape a block as a Block Mined trigger item
+ */
+export function toBlockItem(block: ArweaveBlock): IDataObject {
+  return {
+    event: 'blockMined',
+    height: block.height,
+    hash: block.indep_hash,
+    previousBlock: block.previous_block,
+    timestamp: block.timestamp,
+    timestampDate: new Date(block.timestamp * 1000).toISOString(),
+    transactionCount: block.txs?.length || 0,
+    blockSize: block.block_size,
+  };
+}
+
+/**
+ * Walk back from the newest remembered block to the point where the chain forked
+ *
+ * Returns the remembered blocks the chain no longer contains, oldest first, and the
+ * blocks now at their heights. A fork deeper than the window orphans every block in it.
+ */
+export async function findOrphanedBlocks(
+  recent: RecentBlock[],
+  fetchBlock: (height: number) => Promise<ArweaveBlock>,
+): Promise<{ orphaned: RecentBlock[]; replacements: ArweaveBlock[] }> {
+  const orphaned: RecentBlock[] = [];
+  const replacements: ArweaveBlock[] = [];
+  for (const remembered of [...recent].reverse()) {
+    const block = await fetchBlock(remembered.height);
+    if (block.indep_hash === remembered.hash) {
+      break;
+    }
+    orphaned.unshift(remembered);
+    replacements.unshift(block);
+  }
+  return { orphaned, replacements };
+}
+
+/**
+ * Pick the transactions of a newest-first page that were not seen before
+ *
+ * Pending transactions come first and are always kept unless seen. Reaching a
+ * transaction mined below the floor means the rest of the results are old.
+ */
+export function selectUnseen(
+  edges: GraphQLEdge[],
+  seen: Set<string>,
+  floor?: number,
+): { unseen: GraphQLEdge[]; reachedFloor: boolean } {
+  const unseen: GraphQLEdge[] = [];
+  for (const edge of edges) {
+    const height = edge.node.block?.height;
+    if (floor !== undefined && height !== undefined && height < floor) {
+      return { unseen, reachedFloor: true };
+    }
+    if (!seen.has(edge.node.id)) {
+      unseen.push(edge);
+    }
+  }
+  return { unseen, reachedFloor: false };
+}
@@ -0,0 +1,312 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeBaseDescription,
+  INodeTypeDescription,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ARWEAVE_CONSTANTS, NODE_DISPLAY, RESOURCES } from '../constants';
+import { testArweaveCredentials } from '../transport/arweaveClient';
+import type { GatewayRetryOptions } from '../types';
+import { clearServedGateway, getServedGateway, setRetryOptions } from '../transport/gateways';
+import { setTransactionCache } from '../transport/transactionCache';
+import { arnsOperations, arnsFields, executeArnsOperation } from '../actions/arns';
+import { blocksOperations, blocksFields, executeBlocksOperation } from '../actions/blocks';
+import { bundlesOperations, bundlesFields, executeBundlesOperation } from '../actions/bundles';
+import {
+  dataRetrievalOperations,
+  dataRetrievalFields,
+  executeDataRetrievalOperation,
+} from '../actions/dataRetrieval';
+import {
+  dataUploadOperations,
+  dataUploadFields,
+  executeDataUploadOperation,
+} from '../actions/dataUpload';
+import { graphqlOperations, graphqlFields, executeGraphqlOperation } from '../actions/graphql';
+import {
+  manifestsOperations,
+  manifestsFields,
+  executeManifestsOperation,
+} from '../actions/manifests';
+import { networkOperations, networkFields, executeNetworkOperation } from '../actions/network';
+import { pricingOperations, pricingFields, executePricingOperation } from '../actions/pricing';
+import {
+  smartweaveOperations,
+  smartweaveFields,
+  executeSmartweaveOperation,
+} from '../actions/smartweave';
+import {
+  transactionsOperations,
+  transactionsFields,
+  executeTransactionsOperation,
+} from '../actions/transactions';
+import { utilityOperations, utilityFields, executeUtilityOperation } from '../actions/utility';
+import { walletOperations, walletFields, executeWalletOperation } from '../actions/wallet';
+
+type OperationHandler = (
+  this: IExecuteFunctions,
+  itemIndex: number,
+) => Promise<INodeExecutionData[]>;
+
+// Each resource module executes one input item at a time
+const RESOURCE_HANDLERS: Record<string, OperationHandler> = {
+  [RESOURCES.TRANSACTIONS]: executeTransactionsOperation,
+  [RESOURCES.DATA_UPLOAD]: executeDataUploadOperation,
+  [RESOURCES.DATA_RETRIEVAL]: executeDataRetrievalOperation,
+  [RESOURCES.WALLET]: executeWalletOperation,
+  [RESOURCES.GRAPHQL]: executeGraphqlOperation,
+  [RESOURCES.BLOCKS]: executeBlocksOperation,
+  [RESOURCES.NETWORK]: executeNetworkOperation,
+  [RESOURCES.PRICING]: executePricingOperation,
+  [RESOURCES.BUNDLES]: executeBundlesOperation,
+  [RESOURCES.MANIFESTS]: executeManifestsOperation,
+  [RESOURCES.ARNS]: executeArnsOperation,
+  [RESOURCES.SMARTWEAVE]: executeSmartweaveOperation,
+  [RESOURCES.UTILITY]: executeUtilityOperation,
+};
+
+const versionDescription: INodeTypeDescription = {
+  displayName: NODE_DISPLAY.NAME,
+  name: 'arweave',
+  icon: NODE_DISPLAY.ICON,
+  group: ['transform'],
+  version: 2,
+  subtitle: NODE_DISPLAY.SUBTITLE,
+  description: NODE_DISPLAY.DESCRIPTION,
+  defaults: {
+    name: NODE_DISPLAY.NAME,
+  },
+  inputs: ['main'],
+  outputs: ['main'],
+  credentials: [
+    {
+      name: 'arweaveApi',
+      required: true,
+      testedBy: 'arweaveApiTest',
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Resource',
+      name: 'resource',
+      type: 'options',
+      noDataExpression: true,
+      options: [
+        { name: 'ArNS', value: RESOURCES.ARNS },
+        { name: 'Block', value: RESOURCES.BLOCKS },
+        { name: 'Bundle', value: RESOURCES.BUNDLES },
+        { name: 'Data Retrieval', value: RESOURCES.DATA_RETRIEVAL },
+        { name: 'Data Upload', value: RESOURCES.DATA_UPLOAD },
+        { name: 'GraphQL', value: RESOURCES.GRAPHQL },
+        { name: 'Manifest', value: RESOURCES.MANIFESTS },
+        { name: 'Network', value: RESOURCES.NETWORK },
+        { name: 'Pricing', value: RESOURCES.PRICING },
+        { name: 'SmartWeave', value: RESOURCES.SMARTWEAVE },
+        { name: 'Transaction', value: RESOURCES.TRANSACTIONS },
+        { name: 'Utility', value: RESOURCES.UTILITY },
+        { name: 'Wallet', value: RESOURCES.WALLET },
+      ],
+      default: RESOURCES.TRANSACTIONS,
+    },
+    ...transactionsOperations,
+    ...transactionsFields,
+    ...dataUploadOperations,
+    ...dataUploadFields,
+    ...dataRetrievalOperations,
+    ...dataRetrievalFields,
+    ...walletOperations,
+    ...walletFields,
+    ...graphqlOperations,
+    ...graphqlFields,
+    ...blocksOperations,
+    ...blocksFields,
+    ...networkOperations,
+    ...networkFields,
+    ...pricingOperations,
+    ...pricingFields,
+    ...bundlesOperations,
+    ...bundlesFields,
+    ...manifestsOperations,
+    ...manifestsFields,
+    ...arnsOperations,
+    ...arnsFields,
+    ...smartweaveOperations,
+    ...smartweaveFields,
+    ...utilityOperations,
+    ...utilityFields,
+    {
+      displayName: 'Request Options',
+      name: 'requestOptions',
+      type: 'collection',
+      placeholder: 'Add Option',
+      default: {},
+      options: [
+        {
+          displayName: 'Cache Confirmed Transactions',
+          name: 'cacheTransactions',
+          type: 'boolean',
+          default: false,
+          description:
+            'Whether to keep headers and data of confirmed transactions on disk and read them from there instead of the gateway',
+        },
+        {
+          displayName: 'Cache Directory',
+          name: 'cacheDirectory',
+          type: 'string',
+          default: '',
+          placeholder: '/home/node/.n8n/arweave-cache',
+          description:
+            'Where cached transactions are stored. Leave empty to use arweave-cache in the n8n user folder.',
+        },
+        {
+          displayName: 'Cache Min Confirmations',
+          name: 'cacheConfirmations',
+          type: 'number',
+          typeOptions: { minValue: 1 },
+          default: ARWEAVE_CONSTANTS.CONFIRMATIONS.HIGH,
+          description: 'Confirmations a transaction needs before it is cached',
+        },
+        {
+          displayName: 'Cache Size (MB)',
+          name: 'cacheSize',
+          type: 'number',
+          typeOptions: { minValue: 1 },
+          default: ARWEAVE_CONSTANTS.CACHE_MAX_SIZE / (1024 * 1024),
+          description:
+            'Size cap of the cache. The least recently used transactions are evicted first.',
+        },
+        {
+          displayName: 'Circuit Breaker Cooldown (Ms)',
+          name: 'breakerCooldown',
+          type: 'number',
+          typeOptions: { minValue: 0 },
+          default: ARWEAVE_CONSTANTS.BREAKER_COOLDOWN,
+          description:
+            'How long a gateway with an open circuit is skipped before it is tried again',
+        },
+        {
+          displayName: 'Circuit Breaker Threshold',
+          name: 'breakerThreshold',
+          type: 'number',
+          typeOptions: { minValue: 1 },
+          default: ARWEAVE_CONSTANTS.BREAKER_THRESHOLD,
+          description:
+            'Consecutive failures after which a gateway is skipped for the rest of the execution until the cooldown has passed',
+        },
+        {
+          displayName: 'Max Retries',
+          name: 'maxRetries',
+          type: 'number',
+          typeOptions: { minValue: 0 },
+          default: ARWEAVE_CONSTANTS.MAX_RETRIES,
+          description:
+            'How many times to retry reads and transaction posts that failed on every gateway with a network error, 5xx or 429',
+        },
+        {
+          displayName: 'Max Retry Delay (Ms)',
+          name: 'maxRetryDelay',
+          type: 'number',
+          typeOptions: { minValue: 0 },
+          default: ARWEAVE_CONSTANTS.RETRY_MAX_DELAY,
+          description:
+            'Longest wait between retries. A gateway asking to wait longer with Retry-After fails the request instead.',
+        },
+        {
+          displayName: 'Retry Delay (Ms)',
+          name: 'retryDelay',
+          type: 'number',
+          typeOptions: { minValue: 0 },
+          default: ARWEAVE_CONSTANTS.RETRY_BASE_DELAY,
+          description: 'Base of the exponential backoff, with random jitter, between retries',
+        },
+      ],
+    },
+  ],
+};
+
+export class ArweaveV2 implements INodeType {
+  description: INodeTypeDescription;
+
+  constructor(baseDescription: INodeTypeBaseDescription) {
+    this.description = {
+      ...baseDescription,
+      ...versionDescription,
+    };
+  }
+
+  methods = {
+    credentialTest: {
+      arweaveApiTest: testArweaveCredentials,
+    },
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+    // Retry, circuit breaker and cache settings apply to every item of the execution
+    const { cacheTransactions, cacheDirectory, cacheConfirmations, cacheSize, ...retryOptions } =
+      this.getNodeParameter('requestOptions', 0, {}) as Partial<GatewayRetryOptions> & {
+        cacheTransactions?: boolean;
+        cacheDirectory?: string;
+        cacheConfirmations?: number;
+        cacheSize?: number;
+      };
+    setRetryOptions(this, retryOptions);
+    setTransactionCache(
+      this,
+      cacheTransactions
+        ? {
+            directory: cacheDirectory,
+            minConfirmations: cacheConfirmations,
+            maxBytes: cacheSize === undefined ? undefined : cacheSize * 1024 * 1024,
+          }
+        : null,
+    );
+
+    for (let i = 0; i < items.length; i++) {
+      try {
+        const resource = this.getNodeParameter('resource', i) as string;
+        const handler = RESOURCE_HANDLERS[resource];
+        if (!handler) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `The resource "${resource}" is not supported`,
+            { itemIndex: i },
+          );
+        }
+
+        clearServedGateway(this);
+        const results = await handler.call(this, i);
+        // Record which gateway served the item, unless the operation made no gateway request
+        const gateway = getServedGateway(this);
+        returnData.push(
+          ...results.map((result) => ({
+            ...result,
+            json:
+              gateway && result.json.gateway === undefined
+                ? { ...result.json, gateway }
+                : result.json,
+            pairedItem: result.pairedItem ?? { item: i },
+          })),
+        );
+      } catch (error) {
+        if (this.continueOnFail()) {
+          returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return [returnData];
+  }
+}
@@ -0,0 +1,189 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import {
+  createArweaveSigner,
+  createEthereumSigner,
+  createSolanaSigner,
+  createSignedDataItem,
+  getDataItemSignatureData,
+  getNativeAddress,
+  parseDataItem,
+  parseBundle,
+  parseTags,
+  serializeBundle,
+  verifyDataItem,
+  serializeTags,
+} from '../../nodes/Arweave/utils/ans104';
+import {
+  bufferToBase58,
+  bufferToBase64Url,
+  verifySignature,
+} from '../../nodes/Arweave/utils/helpers';
+import type { ArweaveJWK } from '../../nodes/Arweave/types';
+
+describe('ANS-104 Data Items', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 4096, publicExponent: 65537 });
+  const jwk = privateKey.export({ format: 'jwk' }) as ArweaveJWK;
+  const signer = createArweaveSigner(jwk);
+
+  describe('serializeTags', () => {
+    it('should encode tags as an Avro array', () => {
+      expect(serializeTags([{ name: 'a', value: 'bc' }])).toEqual(
+        Buffer.from([0x02, 0x02, 0x61, 0x04, 0x62, 0x63, 0x00]),
+      );
+    });
+
+    it('should encode no tags as empty bytes', () => {
+      expect(serializeTags([])).toHaveLength(0);
+    });
+  });
+
+  describe('createSignedDataItem', () => {
+    it('should serialize the binary layout without target or anchor', async () => {
+      const item = await createSignedDataItem(signer, { data: Buffer.from('Hello'), tags: [] });
+
+      expect(item.binary.readUInt16LE(0)).toBe(1);
+      expect(item.binary[2 + 512 + 512]).toBe(0);
+      expect(item.binary[2 + 512 + 512 + 1]).toBe(0);
+      expect(item.binary.readBigUInt64LE(1028)).toBe(BigInt(0));
+      expect(item.binary.subarray(1044).toString()).toBe('Hello');
+      expect(item.header.owner).toBe(jwk.n);
+    });
+
+    it('should sign the deep hash of the item fields', async () => {
+      const target = bufferToBase64Url(randomBytes(32));
+      const anchor = bufferToBase64Url(randomBytes(32));
+      const tags = [{ name: 'Content-Type', value: 'text/plain' }];
+      const item = await createSignedDataItem(signer, {
+        data: Buffer.from('Hello'),
+        tags,
+        target,
+        anchor,
+      });
+
+      const signatureData = getDataItemSignatureData(
+        1,
+        signer.owner,
+        Buffer.from(target, 'base64url'),
+        Buffer.from(anchor, 'base64url'),
+        serializeTags(tags),
+        Buffer.from('Hello'),
+      );
+      expect(await verifySignature(signatureData, item.header.signature!, jwk.n)).toBe(true);
+      expect(item.id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('should reject empty tag values and malformed anchors', async () => {
+      await expect(
+        createSignedDataItem(signer, { data: Buffer.from(''), tags: [{ name: 'a', value: '' }] }),
+      ).rejects.toThrow('Tag values');
+      await expect(
+        createSignedDataItem(signer, { data: Buffer.from(''), tags: [], anchor: 'short' }),
+      ).rejects.toThrow('Anchor');
+    });
+  });
+
+  describe('serializeBundle', () => {
+    it('should write the item count and size/ID pairs before the item binaries', async () => {
+      const first = await createSignedDataItem(signer, { data: Buffer.from('one'), tags: [] });
+      const second = await createSignedDataItem(signer, { data: Buffer.from('two'), tags: [] });
+      const bundle = serializeBundle([first, second]);
+
+      expect(bundle.readBigUInt64LE(0)).toBe(BigInt(2));
+      expect(bundle.readBigUInt64LE(32)).toBe(BigInt(first.binary.length));
+      expect(bufferToBase64Url(bundle.subarray(64, 96))).toBe(first.id);
+      expect(bufferToBase64Url(bundle.subarray(128, 160))).toBe(second.id);
+      expect(bundle.subarray(160, 160 + first.binary.length).equals(first.binary)).toBe(true);
+      expect(bundle.length).toBe(160 + first.binary.length + second.binary.length);
+    });
+  });
+
+  describe('parseBundle', () => {
+    it('should round-trip signed items through a bundle', async () => {
+      const target = bufferToBase64Url(randomBytes(32));
+      const tags = [{ name: 'Content-Type', value: 'text/plain' }];
+      const first = await createSignedDataItem(signer, { data: Buffer.from('one'), tags, target });
+      const second = await createSignedDataItem(signer, { data: randomBytes(1000), tags: [] });
+
+      const items = parseBundle(serializeBundle([first, second]));
+
+      expect(items.map((item) => item.id)).toEqual([first.id, second.id]);
+      expect(items[0].tags).toEqual(tags);
+      expect(bufferToBase64Url(items[0].target)).toBe(target);
+      expect(items[0].data.toString()).toBe('one');
+      expect(await verifyDataItem(items[0])).toBe(true);
+      expect(await verifyDataItem(items[1])).toBe(true);
+    });
+
+    it('should fail verification for tampered data or a mismatched header ID', async () => {
+      const first = await createSignedDataItem(signer, { data: Buffer.from('one'), tags: [] });
+      const second = await createSignedDataItem(signer, { data: Buffer.from('two'), tags: [] });
+      const bundle = serializeBundle([first, second]);
+      bundle.write('X', bundle.length - 1);
+      bundle.fill(0, 64, 96);
+
+      const items = parseBundle(bundle);
+
+      expect(await verifyDataItem(items[0])).toBe(false);
+      expect(await verifyDataItem(items[1])).toBe(false);
+    });
+
+    it('should reject truncated bundles', async () => {
+      const item = await createSignedDataItem(signer, { data: Buffer.from('one'), tags: [] });
+      const bundle = serializeBundle([item]);
+
+      expect(() => parseBundle(bundle.subarray(0, bundle.length - 10))).toThrow('truncated');
+    });
+
+    it('should decode tags written in negative-count blocks', () => {
+      expect(parseTags(Buffer.from([0x01, 0x0c, 0x02, 0x61, 0x04, 0x62, 0x63, 0x00]))).toEqual([
+        { name: 'a', value: 'bc' },
+      ]);
+    });
+  });
+
+  describe('Ethereum and Solana signers', () => {
+    // Well-known Hardhat development account #0
+    const ethereumKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+    it('should sign Ethereum data items verifiable with the owner key', async () => {
+      const ethereumSigner = createEthereumSigner(ethereumKey);
+      const item = await createSignedDataItem(ethereumSigner, {
+        data: Buffer.from('Hello'),
+        tags: [{ name: 'App-Name', value: 'n8n' }],
+      });
+      const parsed = parseDataItem(item.binary);
+
+      expect(parsed.signatureType).toBe(3);
+      expect(parsed.signature).toHaveLength(65);
+      expect(parsed.id).toBe(item.id);
+      expect(await verifyDataItem(parsed)).toBe(true);
+      expect(getNativeAddress(3, parsed.owner)).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+    });
+
+    it('should sign Solana data items verifiable with the owner key', async () => {
+      const solanaSigner = createSolanaSigner(JSON.stringify([...randomBytes(64)]));
+      const item = await createSignedDataItem(solanaSigner, {
+        data: Buffer.from('Hello'),
+        tags: [],
+      });
+      const parsed = parseDataItem(item.binary);
+
+      expect(parsed.signatureType).toBe(2);
+      expect(parsed.owner.equals(solanaSigner.owner)).toBe(true);
+      expect(await verifyDataItem(parsed)).toBe(true);
+      expect(getNativeAddress(2, parsed.owner)).toBe(bufferToBase58(solanaSigner.owner));
+    });
+
+    it('should reject malformed keys', () => {
+      expect(() => createEthereumSigner('0x1234')).toThrow('32-byte hex');
+      expect(() => createSolanaSigner('not-base58!')).toThrow('64-byte');
+    });
+  });
+});
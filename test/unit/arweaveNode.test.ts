@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { INodeExecutionData, INodePropertyOptions } from 'n8n-workflow';
+import { Arweave } from '../../nodes/Arweave/Arweave.node';
+import { RESOURCES } from '../../nodes/Arweave/constants';
+
+describe('Arweave Node Versions', () => {
+  const node = new Arweave();
+
+  const resourceValues = (version: number) =>
+    (
+      node
+        .getNodeType(version)
+        .description.properties.find((property) => property.name === 'resource')!
+        .options as INodePropertyOptions[]
+    ).map((option) => option.value);
+
+  it('should default to version 2 and keep version 1 registered', () => {
+    expect(node.getLatestVersion()).toBe(2);
+    expect(node.getNodeType(1).description.version).toBe(1);
+    expect(node.getNodeType(2).description.version).toBe(2);
+  });
+
+  it('should keep the version 1 resource names', () => {
+    expect(resourceValues(1)).toEqual([
+      'transaction',
+      'data',
+      'graphQLQuery',
+      'smartWeaveContract',
+      'wallet',
+      'block',
+    ]);
+  });
+
+  it('should offer every action module with its own operation selector in version 2', () => {
+    const { properties } = node.getNodeType(2).description;
+
+    expect(resourceValues(2).sort()).toEqual(Object.values(RESOURCES).sort());
+    for (const resource of Object.values(RESOURCES)) {
+      const selectors = properties.filter(
+        (property) =>
+          property.name === 'operation' &&
+          property.displayOptions?.show?.resource?.includes(resource),
+      );
+      expect(selectors).toHaveLength(1);
+    }
+  });
+
+  it('should dispatch each item to its resource module', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const params: Record<string, unknown>[] = [
+      { resource: 'utility', operation: 'winstonToAR', winstonAmount: '1500000000000' },
+      { resource: 'unknown', operation: 'anything' },
+    ];
+    const context = {
+      getInputData: () => params.map(() => ({ json: {} })),
+      getNodeParameter: (name: string, index: number, fallback?: unknown) =>
+        params[index][name] ?? fallback,
+      getNode: () => ({ name: 'Arweave' }),
+      continueOnFail: () => true,
+    };
+
+    const [results] = (await node
+      .getNodeType(2)
+      .execute!.call(context as never)) as INodeExecutionData[][];
+
+    expect(results[0]).toMatchObject({ json: { success: true }, pairedItem: { item: 0 } });
+    expect(results[1]).toMatchObject({
+      json: { error: 'The resource "unknown" is not supported' },
+      pairedItem: { item: 1 },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import {
+  getBundlerBalance,
+  getBundlerPrice,
+  parseBundlerReceipt,
+  postDataItem,
+  registerBundlerFunding,
+  withdrawFromBundler,
+} from '../../nodes/Arweave/transport/bundlerClient';
+import { deepHash } from '../../nodes/Arweave/utils/deepHash';
+import { verifySignature } from '../../nodes/Arweave/utils/helpers';
+
+describe('Bundler Client', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048, publicExponent: 65537 });
+  const walletJwk = JSON.stringify(privateKey.export({ format: 'jwk' }));
+  let httpRequest: jest.Mock;
+
+  const createContext = (credentials: Record<string, unknown>): any => ({
+    getCredentials: jest.fn().mockResolvedValue({ walletJwk, ...credentials }),
+    getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+    helpers: { httpRequest },
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    httpRequest = jest.fn();
+  });
+
+  it('should normalize Irys and Turbo receipts', () => {
+    const receipt = parseBundlerReceipt(
+      JSON.stringify({ id: 'abc', timestamp: 1700000000000, deadlineHeight: 1300000 }),
+    );
+
+    expect(receipt).toMatchObject({
+      id: 'abc',
+      timestamp: 1700000000000,
+      deadlineHeight: 1300000,
+      signature: null,
+    });
+  });
+
+  it('should report receipts that are not JSON with the provider and body', async () => {
+    httpRequest.mockResolvedValue('<html><body>502 Bad Gateway</body></html>');
+
+    await expect(
+      postDataItem(createContext({ bundlerProvider: 'irys' }), Buffer.from('item')),
+    ).rejects.toThrow('Irys returned a receipt that is not JSON: <html><body>502 Bad Gateway');
+  });
+
+  it('should post data items to the provider upload path as octet-stream', async () => {
+    httpRequest.mockResolvedValue({ id: 'abc', deadlineHeight: 1300000 });
+    const context = createContext({ bundlerProvider: 'irys' });
+
+    const receipt = await postDataItem(context, Buffer.from('item'));
+
+    const [options] = httpRequest.mock.calls[0];
+    expect(options.url).toBe('https://uploader.irys.xyz/tx/arweave');
+    expect(options.headers['Content-Type']).toBe('application/octet-stream');
+    expect(receipt).toMatchObject({ id: 'abc', provider: 'irys', deadlineHeight: 1300000 });
+  });
+
+  it('should quote Turbo prices from the payment service', async () => {
+    httpRequest.mockResolvedValue({ winc: '123456' });
+    const context = createContext({ bundlerProvider: 'turbo' });
+
+    const price = await getBundlerPrice(context, 1024);
+
+    expect(httpRequest.mock.calls[0][0].url).toBe('https://payment.ardrive.io/v1/price/bytes/1024');
+    expect(price).toEqual({ amount: '123456', unit: 'winc', provider: 'turbo' });
+  });
+
+  it('should require an endpoint for ar.io bundlers', async () => {
+    const context = createContext({ bundlerProvider: 'ario' });
+
+    await expect(postDataItem(context, Buffer.from('item'))).rejects.toThrow(
+      'bundler endpoint must be set',
+    );
+  });
+
+  it('should read Irys balances as winston and Turbo balances as winc', async () => {
+    httpRequest.mockResolvedValueOnce({ balance: '2000' }).mockResolvedValueOnce({ winc: '3000' });
+    const address = 'A'.repeat(43);
+
+    const irys = await getBundlerBalance(createContext({ bundlerProvider: 'irys' }), address);
+    const turbo = await getBundlerBalance(createContext({ bundlerProvider: 'turbo' }), address);
+
+    expect(httpRequest.mock.calls.map(([options]) => options.url)).toEqual([
+      `https://uploader.irys.xyz/account/balance/arweave?address=${address}`,
+      `https://payment.ardrive.io/v1/account/balance/arweave?address=${address}`,
+    ]);
+    expect(irys).toEqual({ address, amount: '2000', unit: 'winston', provider: 'irys' });
+    expect(turbo).toMatchObject({ amount: '3000', unit: 'winc' });
+  });
+
+  it('should register funding transfers by transaction ID', async () => {
+    httpRequest.mockResolvedValue('OK');
+    const context = createContext({ bundlerProvider: 'turbo' });
+
+    const registration = await registerBundlerFunding(context, 'C'.repeat(43));
+
+    const [options] = httpRequest.mock.calls[0];
+    expect(options.method).toBe('POST');
+    expect(options.url).toBe('https://payment.ardrive.io/v1/account/balance/arweave');
+    expect(options.body).toEqual({ tx_id: 'C'.repeat(43) });
+    expect(registration).toEqual({ message: 'OK' });
+  });
+
+  it('should sign Irys withdrawals over the currency, amount and nonce', async () => {
+    httpRequest.mockResolvedValueOnce(4).mockResolvedValueOnce({ tx_id: 'D'.repeat(43) });
+    const context = createContext({ bundlerProvider: 'irys' });
+
+    await withdrawFromBundler(context, '5000');
+
+    const [, [options]] = httpRequest.mock.calls;
+    expect(options.url).toBe('https://uploader.irys.xyz/account/withdraw');
+    expect(options.body).toMatchObject({
+      currency: 'arweave',
+      amount: '5000',
+      nonce: 4,
+      sigType: 1,
+    });
+    const message = deepHash([Buffer.from('arweave'), Buffer.from('5000'), Buffer.from('4')]);
+    expect(await verifySignature(message, options.body.signature, options.body.publicKey)).toBe(
+      true,
+    );
+  });
+
+  it('should refuse withdrawals and balances where the provider has none', async () => {
+    await expect(
+      withdrawFromBundler(createContext({ bundlerProvider: 'turbo' }), '5000'),
+    ).rejects.toThrow('does not support withdrawals');
+    await expect(
+      getBundlerBalance(createContext({ bundlerProvider: 'ario', bundlrEndpoint: 'https://x' })),
+    ).rejects.toThrow('do not hold account balances');
+    expect(httpRequest).not.toHaveBeenCalled();
+  });
+});
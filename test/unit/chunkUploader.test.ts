@@ -0,0 +1,178 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { bufferSource, uploadTransactionData } from '../../nodes/Arweave/transport/chunkUploader';
+import { setRetryOptions } from '../../nodes/Arweave/transport/gateways';
+import { getChunkRanges, readChunks } from '../../nodes/Arweave/utils/merkle';
+
+describe('Chunked Uploads', () => {
+  describe('Chunk ranges', () => {
+    it('should split data into 256 KiB chunks', () => {
+      expect(getChunkRanges(600 * 1024)).toEqual([
+        { minByteRange: 0, maxByteRange: 262144 },
+        { minByteRange: 262144, maxByteRange: 524288 },
+        { minByteRange: 524288, maxByteRange: 614400 },
+      ]);
+    });
+
+    it('should balance the last two chunks instead of leaving a tiny chunk', () => {
+      const ranges = getChunkRanges(262144 + 1000);
+      expect(ranges).toHaveLength(2);
+      expect(ranges[0].maxByteRange).toBe(131572);
+    });
+
+    it('should reassemble streamed data into the same chunks', async () => {
+      const data = randomBytes(700000);
+      async function* stream() {
+        for (let i = 0; i < data.length; i += 65536) {
+          yield data.subarray(i, i + 65536);
+        }
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of readChunks(stream(), data.length)) {
+        chunks.push(chunk);
+      }
+      expect(chunks.map((c) => c.length)).toEqual([262144, 262144, 175712]);
+      expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    });
+
+    it('should slice a single large buffer into chunks without copying it', async () => {
+      const data = randomBytes(8 * 1024 * 1024 + 1000);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of readChunks([data], data.length)) {
+        chunks.push(chunk);
+      }
+      expect(chunks.map((c) => c.byteOffset)).toEqual(
+        getChunkRanges(data.length).map((range) => data.byteOffset + range.minByteRange),
+      );
+      expect(chunks.every((c) => c.buffer === data.buffer)).toBe(true);
+      expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    });
+
+    it('should reject a stream shorter than its declared size', async () => {
+      const read = async () => {
+        for await (const chunk of readChunks([Buffer.alloc(10)], 20)) {
+          expect(chunk).toBeDefined();
+        }
+      };
+      await expect(read()).rejects.toThrow('ended early');
+    });
+  });
+
+  describe('uploadTransactionData', () => {
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicExponent: 65537,
+    });
+    const walletJwk = JSON.stringify(privateKey.export({ format: 'jwk' }));
+    let staticData: Record<string, unknown>;
+    let httpRequest: jest.Mock;
+    let context: any;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      staticData = {};
+      httpRequest = jest.fn().mockImplementation(async (options: { url: string }) => {
+        if (options.url.endsWith('/tx_anchor')) return 'A'.repeat(43);
+        if (options.url.includes('/price/')) return '1000';
+        return 'OK';
+      });
+      context = {
+        getCredentials: jest.fn().mockResolvedValue({ walletJwk }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        getWorkflowStaticData: jest.fn().mockReturnValue(staticData),
+        helpers: { httpRequest },
+      };
+    });
+
+    const posted = (path: string) =>
+      httpRequest.mock.calls.filter(([options]) => options.url.endsWith(path)).map(([o]) => o.body);
+
+    it('should post small data inline with the transaction', async () => {
+      const result = await uploadTransactionData(context, bufferSource(Buffer.from('Hello')), {
+        tags: [],
+      });
+
+      expect(result.chunked).toBe(false);
+      expect(posted('/tx')[0].data).toBe('SGVsbG8');
+      expect(posted('/chunk')).toHaveLength(0);
+    });
+
+    it('should post a header and every chunk for large data', async () => {
+      const data = randomBytes(600 * 1024);
+      const result = await uploadTransactionData(context, bufferSource(data), { tags: [] });
+
+      expect(result.chunked).toBe(true);
+      expect(result.chunkCount).toBe(3);
+      expect(posted('/tx')[0].data).toBe('');
+      expect(posted('/tx')[0].data_size).toBe(data.length.toString());
+      expect(posted('/chunk').map((c) => c.offset)).toEqual(['262143', '524287', '614399']);
+      expect(staticData.chunkUploads).toEqual({});
+    });
+
+    it('should resume from the last uploaded chunk after a failure', async () => {
+      const data = randomBytes(600 * 1024);
+      let chunkCalls = 0;
+      httpRequest.mockImplementation(async (options: { url: string }) => {
+        if (options.url.endsWith('/tx_anchor')) return 'A'.repeat(43);
+        if (options.url.includes('/price/')) return '1000';
+        if (options.url.endsWith('/chunk') && ++chunkCalls === 2)
+          throw new Error('Gateway timeout');
+        return 'OK';
+      });
+      // Without retries the failed chunk ends the first upload
+      setRetryOptions(context, { maxRetries: 0 });
+
+      await expect(
+        uploadTransactionData(context, bufferSource(data), { tags: [] }),
+      ).rejects.toThrow();
+      const header = posted('/tx')[0];
+
+      const result = await uploadTransactionData(context, bufferSource(data), { tags: [] });
+
+      expect(result.resumed).toBe(true);
+      expect(posted('/tx')).toHaveLength(1);
+      expect(result.transaction.id).toBe(header.id);
+      expect(posted('/chunk').map((c) => c.offset)).toEqual([
+        '262143',
+        '524287',
+        '524287',
+        '614399',
+      ]);
+    });
+
+    it('should not resume an upload signed by another wallet', async () => {
+      const data = randomBytes(600 * 1024);
+      httpRequest.mockImplementation(async (options: { url: string }) => {
+        if (options.url.endsWith('/tx_anchor')) return 'A'.repeat(43);
+        if (options.url.includes('/price/')) return '1000';
+        if (options.url.endsWith('/chunk')) throw new Error('Gateway timeout');
+        return 'OK';
+      });
+      setRetryOptions(context, { maxRetries: 0 });
+      await expect(
+        uploadTransactionData(context, bufferSource(data), { tags: [] }),
+      ).rejects.toThrow();
+
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048, publicExponent: 65537 });
+      context.getCredentials.mockResolvedValue({
+        walletJwk: JSON.stringify(other.privateKey.export({ format: 'jwk' })),
+      });
+      httpRequest.mockClear();
+      await expect(
+        uploadTransactionData(context, bufferSource(data), { tags: [] }),
+      ).rejects.toThrow();
+
+      expect(posted('/tx')).toHaveLength(1);
+      expect(posted('/tx')[0].owner).toBe(other.privateKey.export({ format: 'jwk' }).n);
+      expect(Object.keys(staticData.chunkUploads as object)).toHaveLength(2);
+    });
+  });
+});
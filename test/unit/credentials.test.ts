@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import { ArweaveApi } from '../../credentials/ArweaveApi.credentials';
+import {
+  arweaveApiRequest,
+  getCredentials,
+  getDataItemSigner,
+  normalizeCredentials,
+  testArweaveCredentials,
+} from '../../nodes/Arweave/transport/arweaveClient';
+import { deriveAddressFromJwk } from '../../nodes/Arweave/utils/helpers';
+import type { ArweaveJWK } from '../../nodes/Arweave/types';
+
+describe('Arweave Credentials', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048, publicExponent: 65537 });
+  const jwk = privateKey.export({ format: 'jwk' }) as ArweaveJWK;
+  const walletJwk = JSON.stringify(jwk);
+  const mainnetInfo = { network: 'arweave.N.1', height: 1500000 };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('normalizeCredentials', () => {
+    it('should apply defaults and derive the GraphQL endpoint from the gateway', () => {
+      expect(normalizeCredentials({ baseUrl: 'https://ar-io.dev/' })).toMatchObject({
+        access: 'signing',
+        gatewayUrl: 'https://ar-io.dev',
+        graphqlEndpoint: 'https://ar-io.dev/graphql',
+        graphqlDialect: 'auto',
+        network: 'mainnet',
+        timeout: 60000,
+        apiKey: undefined,
+      });
+    });
+
+    it('should read the gateway from the credential field filled with its defaults', () => {
+      // n8n fills every credential property with its default before the node reads it
+      const data = Object.fromEntries(
+        new ArweaveApi().properties.map((property) => [property.name, property.default]),
+      ) as ICredentialDataDecryptedObject;
+
+      expect(normalizeCredentials(data).gatewayUrl).toBe('https://arweave.net');
+      expect(normalizeCredentials({ ...data, baseUrl: 'https://g8way.io' }).gatewayUrl).toBe(
+        'https://g8way.io',
+      );
+    });
+  });
+
+  describe('getCredentials', () => {
+    const createContext = (credentials: Record<string, unknown>): any => ({
+      getCredentials: jest.fn().mockResolvedValue(credentials),
+      getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+      helpers: { httpRequest: jest.fn().mockResolvedValue(mainnetInfo) },
+    });
+
+    it('should refuse to sign with read-only credentials but still read', async () => {
+      const context = createContext({ access: 'readOnly', walletJwk, apiKey: 'secret' });
+
+      await expect(getCredentials(context)).rejects.toThrow('signing credential');
+      await arweaveApiRequest(context, 'GET', '/info');
+      expect(context.helpers.httpRequest.mock.calls[0][0].headers.Authorization).toBe(
+        'Bearer secret',
+      );
+    });
+
+    it('should not sign data items with keys left in read-only credentials', async () => {
+      const context = createContext({ access: 'readOnly', ethereumPrivateKey: 'ab'.repeat(32) });
+
+      await expect(getDataItemSigner(context, 'ethereum')).rejects.toThrow('read-only');
+      await expect(
+        getDataItemSigner(createContext({ ethereumPrivateKey: 'ab'.repeat(32) }), 'ethereum'),
+      ).resolves.toBeDefined();
+    });
+
+    it('should derive the wallet address for signing credentials', async () => {
+      const credentials = await getCredentials(createContext({ walletJwk }));
+
+      expect(credentials.address).toBe(deriveAddressFromJwk(jwk));
+    });
+  });
+
+  describe('testArweaveCredentials', () => {
+    let request: jest.Mock;
+    const runTest = (data: Record<string, unknown>, info: unknown = mainnetInfo) => {
+      request = jest.fn().mockResolvedValue(info);
+      return testArweaveCredentials.call(
+        { helpers: { request } } as any,
+        { id: '1', name: 'Arweave', type: 'arweaveApi', data } as any,
+      );
+    };
+
+    it('should be the only test of the credential', () => {
+      // A credential test request would run instead of the nodes' testedBy method
+      expect(new ArweaveApi()).not.toHaveProperty('test');
+    });
+
+    it('should query the gateway info with the API key', async () => {
+      const result = await runTest({ apiKey: 'secret' });
+
+      expect(result.message).toContain('read-only');
+      expect(request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          uri: 'https://arweave.net/info',
+          headers: { Authorization: 'Bearer secret' },
+        }),
+      );
+    });
+
+    it('should report the network and the derived wallet address', async () => {
+      const result = await runTest({ walletJwk });
+
+      expect(result.status).toBe('OK');
+      expect(result.message).toContain('arweave.N.1');
+      expect(result.message).toContain(deriveAddressFromJwk(jwk));
+    });
+
+    it('should reject a gateway serving another network', async () => {
+      const result = await runTest({ walletJwk, network: 'testnet' });
+
+      expect(result).toMatchObject({ status: 'Error' });
+      expect(result.message).toContain('not testnet');
+    });
+
+    it('should reject a JWK without a private key', async () => {
+      const result = await runTest({
+        walletJwk: JSON.stringify({ kty: 'RSA', n: jwk.n, e: jwk.e }),
+      });
+
+      expect(result.status).toBe('Error');
+      expect(result.message).toContain('Invalid wallet JWK');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { executeDataRetrievalOperation } from '../../nodes/Arweave/actions/dataRetrieval';
+import { createEthereumSigner, createSignedDataItem } from '../../nodes/Arweave/utils/ans104';
+import { bufferToBase64Url } from '../../nodes/Arweave/utils/helpers';
+import { computeDataRoot } from '../../nodes/Arweave/utils/merkle';
+
+describe('Data Retrieval', () => {
+  describe('integrity check', () => {
+    const txId = 'a'.repeat(43);
+    const data = Buffer.from('Hello World');
+    let headers: Record<string, { format: number; data_root: string } | undefined>;
+    let dataItems: Record<string, unknown>[];
+    let httpRequest: jest.Mock;
+
+    const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+
+    const getRawData = (verifyIntegrity: string, transactionId = txId) => {
+      const params: Record<string, unknown> = {
+        operation: 'getRawData',
+        transactionId,
+        outputBinary: false,
+        verifyIntegrity,
+      };
+      const context: any = {
+        getCredentials: jest
+          .fn()
+          .mockResolvedValue({ baseUrl: 'https://arweave.net', graphqlDialect: 'arweave' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        getNodeParameter: (name: string) => params[name],
+        helpers: { httpRequest },
+      };
+      return executeDataRetrievalOperation.call(context, 0);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      headers = {
+        [txId]: { format: 2, data_root: bufferToBase64Url(computeDataRoot(data)) },
+      };
+      dataItems = [];
+      httpRequest = jest.fn().mockImplementation(async ({ url }: { url: string }) => {
+        const [, path] = url.split('https://arweave.net/');
+        if (path.startsWith('raw/')) {
+          return data;
+        }
+        if (path === 'graphql') {
+          return {
+            data: { transactions: { edges: dataItems.map((node) => ({ cursor: '', node })) } },
+          };
+        }
+        const header = headers[path.split('/')[1]];
+        if (!header) {
+          throw notFound();
+        }
+        return path.endsWith('/data_root') ? header.data_root : header;
+      });
+    });
+
+    it('should verify data that matches its data_root', async () => {
+      const [{ json }] = await getRawData('fail');
+
+      expect(json.integrity).toEqual({
+        verified: true,
+        dataRoot: headers[txId]!.data_root,
+        expectedDataRoot: headers[txId]!.data_root,
+      });
+    });
+
+    it('should flag or reject data that does not match its data_root', async () => {
+      headers[txId]!.data_root = bufferToBase64Url(computeDataRoot(Buffer.from('Tampered')));
+
+      const [{ json }] = await getRawData('flag');
+      expect(json.integrity).toMatchObject({ verified: false });
+
+      await expect(getRawData('fail')).rejects.toThrow('does not match its data_root');
+    });
+
+    it('should report format 1 transactions as not applicable', async () => {
+      headers[txId] = { format: 1, data_root: '' };
+
+      const [{ json }] = await getRawData('fail');
+
+      expect(json.integrity).toMatchObject({
+        verified: null,
+        reason: 'not applicable to format 1 transactions',
+      });
+    });
+
+    it('should verify data items by their signature without retrying the lookup', async () => {
+      const signer = createEthereumSigner('ab'.repeat(32));
+      const tags = [{ name: 'Content-Type', value: 'text/plain' }];
+      const item = await createSignedDataItem(signer, { data, tags });
+      dataItems = [
+        {
+          ...item.header,
+          owner: { key: item.header.owner },
+          tags,
+          recipient: '',
+          bundledIn: { id: txId },
+        },
+      ];
+
+      const [{ json }] = await getRawData('fail', item.id);
+
+      expect(json.integrity).toMatchObject({ verified: true, method: 'dataItemSignature' });
+      expect(httpRequest.mock.calls.map(([options]) => options.url)).toEqual([
+        `https://arweave.net/raw/${item.id}`,
+        `https://arweave.net/tx/${item.id}/data_root`,
+        'https://arweave.net/graphql',
+      ]);
+    });
+
+    it('should flag or reject data that does not match its data item signature', async () => {
+      const signer = createEthereumSigner('ab'.repeat(32));
+      const item = await createSignedDataItem(signer, { data: Buffer.from('Tampered'), tags: [] });
+      dataItems = [
+        {
+          ...item.header,
+          owner: { key: item.header.owner },
+          tags: [],
+          recipient: '',
+          bundledIn: { id: txId },
+        },
+      ];
+
+      const [{ json }] = await getRawData('flag', item.id);
+      expect(json.integrity).toMatchObject({ verified: false });
+
+      await expect(getRawData('fail', item.id)).rejects.toThrow('does not match its data item');
+    });
+
+    it('should reject IDs that are neither transactions nor data items in fail mode', async () => {
+      headers = {};
+
+      const [{ json }] = await getRawData('flag');
+      expect(json.integrity).toMatchObject({
+        verified: false,
+        reason: 'data_root unavailable',
+      });
+
+      await expect(getRawData('fail')).rejects.toThrow('neither a transaction nor a bundled');
+    });
+  });
+});
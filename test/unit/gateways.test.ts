@@ -0,0 +1,244 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { arweaveApiRequest } from '../../nodes/Arweave/transport/arweaveClient';
+import {
+  gatewayRequest,
+  getRetryAfter,
+  getServedGateway,
+  isCircuitOpen,
+  resetGatewayHealth,
+  setRetryOptions,
+} from '../../nodes/Arweave/transport/gateways';
+
+describe('Gateway Failover', () => {
+  const gateways = ['https://one.example', 'https://two.example'];
+  let httpRequest: jest.Mock;
+  let context: any;
+
+  const httpError = (status: number) =>
+    Object.assign(new Error(`Request failed with status ${status}`), { response: { status } });
+  const requestedHosts = () => httpRequest.mock.calls.map(([options]) => new URL(options.url).host);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    resetGatewayHealth();
+    httpRequest = jest.fn();
+    context = {
+      getCredentials: jest.fn().mockResolvedValue({
+        baseUrl: gateways[0],
+        fallbackGateways: gateways[1],
+      }),
+      getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+      helpers: { httpRequest },
+    };
+  });
+
+  it('should fail over on network errors, 5xx and 429 and record the serving gateway', async () => {
+    for (const failure of [
+      Object.assign(new Error('down'), { code: 'ECONNREFUSED' }),
+      httpError(503),
+      httpError(429),
+    ]) {
+      resetGatewayHealth();
+      httpRequest.mockReset();
+      httpRequest.mockRejectedValueOnce(failure).mockResolvedValueOnce({ height: 1 });
+
+      const response = await gatewayRequest(
+        context,
+        gateways,
+        { method: 'GET', path: '/info' },
+        { read: true },
+      );
+
+      expect(response).toEqual({ height: 1 });
+      expect(requestedHosts()).toEqual(['one.example', 'two.example']);
+      expect(getServedGateway(context)).toBe(gateways[1]);
+    }
+  });
+
+  it('should not fail over on client errors', async () => {
+    httpRequest.mockRejectedValue(httpError(400));
+
+    await expect(
+      gatewayRequest(context, gateways, { method: 'POST', path: '/tx' }, { read: false }),
+    ).rejects.toThrow('status 400');
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fail over on 404 for transaction and data lookups', async () => {
+    httpRequest.mockRejectedValueOnce(httpError(404)).mockResolvedValueOnce({ id: 'x' });
+    await arweaveApiRequest(context, 'GET', `/tx/${'A'.repeat(43)}`);
+    expect(requestedHosts()).toEqual(['one.example', 'two.example']);
+
+    for (const path of [
+      '/block/height/1',
+      `/tx/${'A'.repeat(43)}/status`,
+      `/tx/${'A'.repeat(43)}/data_root`,
+    ]) {
+      httpRequest.mockReset();
+      httpRequest.mockRejectedValue(httpError(404));
+      await expect(arweaveApiRequest(context, 'GET', path)).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('should try recently failed gateways last', async () => {
+    httpRequest.mockRejectedValueOnce(httpError(502)).mockResolvedValue({ height: 1 });
+    await gatewayRequest(context, gateways, { method: 'GET', path: '/info' }, { read: true });
+    httpRequest.mockClear();
+
+    await gatewayRequest(context, gateways, { method: 'GET', path: '/info' }, { read: true });
+
+    expect(requestedHosts()).toEqual(['two.example']);
+  });
+
+  it('should take the first valid response when racing reads', async () => {
+    httpRequest.mockImplementation(
+      ({ url }: { url: string }) =>
+        new Promise((resolve) =>
+          url.startsWith(gateways[0])
+            ? setTimeout(() => resolve({ from: 'one' }), 50)
+            : resolve({ from: 'two' }),
+        ),
+    );
+
+    const response = await gatewayRequest(
+      context,
+      gateways,
+      { method: 'GET', path: '/info' },
+      { read: true, race: true },
+    );
+
+    expect(response).toEqual({ from: 'two' });
+    expect(getServedGateway(context)).toBe(gateways[1]);
+  });
+
+  it('should skip responses rejected by the validator', async () => {
+    httpRequest
+      .mockResolvedValueOnce({ errors: [{ message: 'stale index' }] })
+      .mockResolvedValueOnce({ data: { ok: true } });
+
+    const response = await gatewayRequest(
+      context,
+      gateways,
+      { method: 'POST', path: '/graphql' },
+      {
+        read: true,
+        validate: (answer) => {
+          if ((answer as { errors?: unknown[] }).errors) throw new Error('GraphQL errors');
+        },
+      },
+    );
+
+    expect(response).toEqual({ data: { ok: true } });
+  });
+
+  it('should not retry answers rejected by the validator after a backoff', async () => {
+    httpRequest.mockResolvedValue({ errors: [{ message: 'bad query' }] });
+
+    await expect(
+      gatewayRequest(
+        context,
+        gateways,
+        { method: 'POST', path: '/graphql' },
+        {
+          read: true,
+          validate: () => {
+            throw new Error('GraphQL errors');
+          },
+        },
+      ),
+    ).rejects.toThrow('GraphQL errors');
+    expect(requestedHosts()).toEqual(['one.example', 'two.example']);
+  });
+
+  describe('Retries', () => {
+    const info = { method: 'GET' as const, path: '/info' };
+
+    beforeEach(() => {
+      setRetryOptions(context, { retryDelay: 1, maxRetryDelay: 50 });
+    });
+
+    it('should retry reads after every gateway failed', async () => {
+      httpRequest
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ height: 1 });
+
+      const response = await gatewayRequest(context, gateways, info, { read: true });
+
+      expect(response).toEqual({ height: 1 });
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry writes unless they are idempotent', async () => {
+      httpRequest.mockRejectedValue(httpError(503));
+      const post = { method: 'POST' as const, path: '/tx' };
+
+      await expect(gatewayRequest(context, gateways, post, { read: false })).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+
+      httpRequest.mockClear();
+      setRetryOptions(context, { retryDelay: 1, maxRetries: 1, breakerThreshold: 10 });
+      await expect(
+        gatewayRequest(context, gateways, post, { read: false, idempotent: true }),
+      ).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(4);
+    });
+
+    it('should read Retry-After as seconds or a date and give up when it exceeds the limit', async () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      const limited = (retryAfter: string) =>
+        Object.assign(httpError(429), {
+          response: { status: 429, headers: { 'retry-after': retryAfter } },
+        });
+
+      expect(getRetryAfter(limited('2'))).toBe(2000);
+      expect(getRetryAfter(limited('Thu, 01 Jan 2026 00:00:05 GMT'), now)).toBe(5000);
+      expect(getRetryAfter(httpError(429))).toBeUndefined();
+
+      httpRequest.mockRejectedValue(limited('120'));
+      await expect(gatewayRequest(context, gateways, info, { read: true })).rejects.toThrow();
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should open the circuit of a failing gateway for the rest of the execution', async () => {
+      setRetryOptions(context, { retryDelay: 1, maxRetries: 0, breakerThreshold: 2 });
+      httpRequest.mockImplementation(({ url }: { url: string }) =>
+        url.startsWith(gateways[0]) ? Promise.reject(httpError(502)) : Promise.resolve({ ok: 1 }),
+      );
+
+      for (let i = 0; i < 2; i++) {
+        resetGatewayHealth();
+        await gatewayRequest(context, gateways, info, { read: true });
+      }
+      expect(isCircuitOpen(context, gateways[0])).toBe(true);
+
+      resetGatewayHealth();
+      httpRequest.mockClear();
+      await gatewayRequest(context, gateways, info, { read: true });
+      expect(requestedHosts()).toEqual(['two.example']);
+
+      // Another execution gets its own circuits
+      expect(isCircuitOpen({ ...context }, gateways[0])).toBe(false);
+    });
+
+    it('should stop once every circuit is open', async () => {
+      setRetryOptions(context, { retryDelay: 1, maxRetries: 5, breakerThreshold: 1 });
+      httpRequest.mockRejectedValue(httpError(503));
+
+      await expect(gatewayRequest(context, gateways, info, { read: true })).rejects.toThrow(
+        'status 503',
+      );
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+      await expect(gatewayRequest(context, gateways, info, { read: true })).rejects.toThrow(
+        'paused for this execution',
+      );
+    });
+  });
+});
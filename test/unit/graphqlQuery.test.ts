@@ -0,0 +1,226 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { executeGraphqlOperation } from '../../nodes/Arweave/actions/graphql';
+import {
+  getGraphqlDialect,
+  resetGraphqlDialects,
+} from '../../nodes/Arweave/transport/arweaveClient';
+import {
+  buildTransactionsQuery,
+  detectGraphqlDialect,
+  matchesValueBounds,
+} from '../../nodes/Arweave/utils/graphql';
+import { GRAPHQL_DIALECTS } from '../../nodes/Arweave/constants';
+import type { GraphQLNode } from '../../nodes/Arweave/types';
+
+describe('GraphQL Query Builder', () => {
+  const txId = (char: string) => char.repeat(43);
+
+  it('should only declare the filters in use', () => {
+    const { query, variables } = buildTransactionsQuery({
+      first: 10,
+      ids: [txId('a')],
+      owners: [],
+    });
+
+    expect(query).toContain('$ids: [ID!]');
+    expect(query).toContain('ids: $ids');
+    expect(query).not.toContain('$owners');
+    expect(query).not.toContain('$bundledIn');
+    expect(variables).toEqual({ first: 10, after: undefined, sort: undefined, ids: [txId('a')] });
+  });
+
+  it('should inline the ingestion time bounds', () => {
+    const { query } = buildTransactionsQuery(
+      { ingestedAt: { min: 1700000000.5 } },
+      undefined,
+      GRAPHQL_DIALECTS.ario,
+    );
+
+    expect(query).toContain('ingested_at: { min: 1700000000 }');
+  });
+
+  it('should select the chosen fields plus the ID and the fields bounds need', () => {
+    const { query } = buildTransactionsQuery({ fee: { min: '1' } }, ['tags']);
+    const selection = query.slice(query.indexOf('node {'));
+
+    expect(selection).toContain('id');
+    expect(selection).toContain('tags { name value }');
+    expect(selection).toContain('fee { winston ar }');
+    expect(selection).not.toContain('owner');
+    expect(selection).not.toContain('block');
+  });
+
+  it('should check fee, quantity and data size bounds as whole numbers', () => {
+    const node = {
+      fee: { winston: '1000000000000000', ar: '1000' },
+      quantity: { winston: '0', ar: '0' },
+      data: { size: '2048', type: '' },
+    } as GraphQLNode;
+
+    expect(matchesValueBounds(node, { fee: { min: '999999999999999' } })).toBe(true);
+    expect(matchesValueBounds(node, { dataSize: { max: '1024' } })).toBe(false);
+    expect(matchesValueBounds({ id: 'x' } as GraphQLNode, { fee: { min: '1' } })).toBe(false);
+  });
+
+  describe('dialects', () => {
+    it('should detect the dialect from the schema', () => {
+      const schema = (tagFields: string[], blockFields: string[], args: string[] = []) => ({
+        __schema: {
+          queryType: { fields: [{ name: 'transactions', args: args.map((name) => ({ name })) }] },
+        },
+        tagFilter: { inputFields: tagFields.map((name) => ({ name })) },
+        blockFilter: { inputFields: blockFields.map((name) => ({ name })) },
+      });
+
+      expect(detectGraphqlDialect(schema(['name', 'values', 'op'], ['min', 'max'])).name).toBe(
+        'arweave',
+      );
+      expect(detectGraphqlDialect(schema(['name', 'values'], ['min', 'timestamp']))).toMatchObject({
+        name: 'goldsky',
+        blockTimestamp: true,
+      });
+      expect(
+        detectGraphqlDialect(schema(['name', 'values', 'match'], ['min'], ['ingested_at'])),
+      ).toMatchObject({ name: 'ario', tagMatch: true, ingestedAt: true });
+    });
+
+    it('should refuse filters the dialect lacks', () => {
+      expect(() =>
+        buildTransactionsQuery({ tags: [{ name: 'App-Name', values: ['A*'], match: 'WILDCARD' }] }),
+      ).toThrow('Tag match modes are not supported by the arweave GraphQL endpoint');
+      expect(() =>
+        buildTransactionsQuery({ ingestedAt: { max: 1700000000 } }, [], GRAPHQL_DIALECTS.goldsky),
+      ).toThrow('Ingestion time filters are not supported by the goldsky GraphQL endpoint');
+    });
+
+    it('should filter block time on Goldsky and on each page elsewhere', () => {
+      const options = { block: { min: 10 }, blockTime: { min: 1700000000 } };
+      const goldsky = buildTransactionsQuery(options, ['tags'], GRAPHQL_DIALECTS.goldsky);
+      const arweave = buildTransactionsQuery(options, ['tags']);
+      const node = { id: 'x', block: { timestamp: 1600000000 } } as GraphQLNode;
+
+      expect(goldsky.variables.block).toEqual({ min: 10, timestamp: { min: 1700000000 } });
+      expect(arweave.variables.block).toEqual({ min: 10 });
+      expect(arweave.query).toContain('block { id timestamp height previous }');
+      expect(matchesValueBounds(node, options)).toBe(false);
+      expect(matchesValueBounds(node, options, GRAPHQL_DIALECTS.goldsky)).toBe(true);
+    });
+
+    it('should remember detected dialects but retry endpoints that refused introspection', async () => {
+      resetGraphqlDialects();
+      const httpRequest = jest
+        .fn()
+        .mockResolvedValueOnce({ errors: [{ message: 'Introspection is disabled' }] })
+        .mockResolvedValue({
+          data: { tagFilter: { inputFields: [{ name: 'match' }] }, blockFilter: null },
+        });
+      const context: any = {
+        getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://ar-io.dev' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        helpers: { httpRequest },
+      };
+
+      expect((await getGraphqlDialect(context)).name).toBe('arweave');
+      expect((await getGraphqlDialect(context)).name).toBe('ario');
+      expect((await getGraphqlDialect(context)).name).toBe('ario');
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remember the dialect under the endpoint that answered', async () => {
+      resetGraphqlDialects();
+      const httpRequest = jest.fn().mockImplementation(async ({ url }: { url: string }) => {
+        if (url.startsWith('https://arweave.net')) {
+          throw Object.assign(new Error('Bad Gateway'), { response: { status: 502 } });
+        }
+        return { data: { tagFilter: { inputFields: [{ name: 'match' }] }, blockFilter: null } };
+      });
+      const context: any = {
+        getCredentials: jest.fn().mockResolvedValue({
+          baseUrl: 'https://arweave.net',
+          fallbackGateways: 'https://g8way.io',
+        }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        helpers: { httpRequest },
+      };
+
+      expect((await getGraphqlDialect(context)).name).toBe('ario');
+      const calls = httpRequest.mock.calls.length;
+
+      context.getCredentials.mockResolvedValue({ baseUrl: 'https://g8way.io' });
+      expect((await getGraphqlDialect(context)).name).toBe('ario');
+      expect(httpRequest).toHaveBeenCalledTimes(calls);
+    });
+  });
+
+  describe('queryTransactions operation', () => {
+    const run = async (params: Record<string, unknown>) => {
+      const httpRequest = jest.fn().mockResolvedValue({
+        data: {
+          transactions: {
+            pageInfo: { hasNextPage: false },
+            edges: [
+              { cursor: 'c1', node: { id: txId('a'), data: { size: '10' } } },
+              { cursor: 'c2', node: { id: txId('b'), data: { size: '5000' } } },
+            ],
+          },
+        },
+      });
+      const context: any = {
+        getCredentials: jest
+          .fn()
+          .mockResolvedValue({ baseUrl: 'https://arweave.net', graphqlDialect: 'ario' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        getNodeParameter: (name: string, _index: number, fallback?: unknown) =>
+          ({ operation: 'queryTransactions', ...params })[name] ?? fallback,
+        helpers: { httpRequest },
+      };
+      const [item] = await executeGraphqlOperation.call(context, 0);
+      return { json: item.json, body: httpRequest.mock.calls[0][0].body };
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    it('should send match modes and filters and drop transactions outside the bounds', async () => {
+      const { json, body } = await run({
+        tags: { tagFilters: [{ name: 'App-Name', values: 'Ardrive*', match: 'WILDCARD' }] },
+        filters: { bundledIn: txId('z'), minDataSize: 1024 },
+        fields: ['data'],
+      });
+
+      expect(body.variables.tags).toEqual([
+        { name: 'App-Name', values: ['Ardrive*'], op: 'EQ', match: 'WILDCARD' },
+      ]);
+      expect(body.variables.bundledIn).toEqual([txId('z')]);
+      expect(json.transactions).toEqual([{ id: txId('b'), data: { size: '5000' } }]);
+      expect(json.cursors).toHaveLength(2);
+    });
+
+    it('should leave exact matches out of tag filters', async () => {
+      const { body } = await run({
+        tags: { tagFilters: [{ name: 'Type', values: 'manifest', match: 'EXACT' }] },
+      });
+
+      expect(body.variables.tags[0]).not.toHaveProperty('match');
+    });
+
+    it('should reject malformed IDs, amounts and dates', async () => {
+      await expect(run({ filters: { ids: 'not-an-id' } })).rejects.toThrow(
+        'Invalid transaction ID',
+      );
+      await expect(run({ filters: { minFee: '1.5' } })).rejects.toThrow(
+        'Fee must be a whole number',
+      );
+      await expect(run({ filters: { ingestedAfter: 'yesterday' } })).rejects.toThrow(
+        'Invalid date: yesterday',
+      );
+    });
+  });
+});
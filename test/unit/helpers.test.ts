@@ -5,16 +5,26 @@
  * See LICENSE file for details.
  */
 
+import { constants, generateKeyPairSync, sign, verify } from 'crypto';
 import {
   encodeBase64Url,
   decodeBase64Url,
+  bufferToBase58,
+  base58ToBuffer,
   winstonToAr,
   arToWinston,
   validateTransactionId,
   formatFileSize,
   encodeTags,
   decodeTags,
+  signMessage,
+  verifySignature,
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  generateJwk,
+  deriveAddressFromJwk,
 } from '../../nodes/Arweave/utils/helpers';
+import type { ArweaveJWK } from '../../nodes/Arweave/types';
 
 describe('Arweave Helpers', () => {
   describe('Base64URL encoding/decoding', () => {
@@ -41,6 +51,22 @@ describe('Arweave Helpers', () => {
     });
   });
 
+  describe('Base58 encoding/decoding', () => {
+    it('should encode bytes with the Bitcoin alphabet', () => {
+      expect(bufferToBase58(Buffer.from('Hello World'))).toBe('JxF12TrwUP45BMd');
+    });
+
+    it('should preserve leading zero bytes', () => {
+      const bytes = Buffer.from([0, 0, 1, 2, 3]);
+      expect(bufferToBase58(bytes)).toBe('11Ldp');
+      expect(base58ToBuffer('11Ldp')).toEqual(bytes);
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base58ToBuffer('0OIl')).toThrow('Invalid Base58');
+    });
+  });
+
   describe('Winston/AR conversion', () => {
     it('should convert winston to AR', () => {
       expect(winstonToAr('1000000000000')).toBe('1.000000000000');
@@ -54,6 +80,24 @@ describe('Arweave Helpers', () => {
       expect(arToWinston('0.000000000001')).toBe('1');
     });
 
+    it('should convert decimal AR amounts exactly', () => {
+      expect(arToWinston('0.57')).toBe('570000000000');
+      expect(arToWinston('123.456789012345')).toBe('123456789012345');
+      expect(arToWinston(0.57)).toBe('570000000000');
+    });
+
+    it('should keep the sign of negative AR amounts', () => {
+      expect(arToWinston('-0.5')).toBe('-500000000000');
+      expect(arToWinston('-1.5')).toBe('-1500000000000');
+      expect(arToWinston(-1.5)).toBe('-1500000000000');
+    });
+
+    it('should reject AR amounts that are not plain decimals', () => {
+      for (const amount of ['1e-5', '', '-', '.', '1.2.3', 'abc', 1e21]) {
+        expect(() => arToWinston(amount)).toThrow('Invalid AR amount');
+      }
+    });
+
     it('should handle zero values', () => {
       expect(winstonToAr('0')).toBe('0.000000000000');
       expect(arToWinston('0')).toBe('0');
@@ -129,4 +173,67 @@ describe('Arweave Helpers', () => {
       expect(decodeTags([])).toEqual([]);
     });
   });
+
+  describe('Message signing', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicExponent: 65537,
+    });
+    const jwk = privateKey.export({ format: 'jwk' }) as ArweaveJWK;
+
+    it('should produce an RSA-PSS signature verifiable with the owner modulus', async () => {
+      const signature = await signMessage(jwk, 'Hello Arweave');
+      expect(base64UrlToBuffer(signature)).toHaveLength(256);
+
+      const isValid = verify(
+        'sha256',
+        Buffer.from('Hello Arweave'),
+        { key: publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+        base64UrlToBuffer(signature),
+      );
+      expect(isValid).toBe(true);
+    });
+
+    it('should verify its own signatures', async () => {
+      const signature = await signMessage(jwk, 'Hello Arweave');
+      expect(await verifySignature('Hello Arweave', signature, jwk.n)).toBe(true);
+    });
+
+    it('should verify signatures made with the maximum salt length', async () => {
+      const signature = sign('sha256', Buffer.from('Hello Arweave'), {
+        key: privateKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_MAX_SIGN,
+      });
+      expect(await verifySignature('Hello Arweave', bufferToBase64Url(signature), jwk.n)).toBe(
+        true,
+      );
+    });
+
+    it('should reject tampered messages and signatures', async () => {
+      const signature = await signMessage(jwk, 'Hello Arweave');
+      expect(await verifySignature('Hello Arweave!', signature, jwk.n)).toBe(false);
+      expect(await verifySignature('Hello Arweave', 'invalid', jwk.n)).toBe(false);
+    });
+
+    it('should refuse to sign without a private key', async () => {
+      await expect(signMessage({ kty: 'RSA', n: jwk.n, e: jwk.e }, 'Hello')).rejects.toThrow(
+        'private key',
+      );
+    });
+  });
+
+  describe('Wallet generation', () => {
+    it('should generate a usable RSA-4096 JWK', async () => {
+      const jwk = await generateJwk();
+
+      expect(jwk.kty).toBe('RSA');
+      expect(jwk.e).toBe('AQAB');
+      expect(base64UrlToBuffer(jwk.n)).toHaveLength(512);
+      expect(deriveAddressFromJwk(jwk)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+      const signature = await signMessage(jwk, 'Hello Arweave');
+      expect(await verifySignature('Hello Arweave', signature, jwk.n)).toBe(true);
+    });
+  });
 });
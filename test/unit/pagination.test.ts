@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { executeGraphqlOperation } from '../../nodes/Arweave/actions/graphql';
+import { paginateTransactions } from '../../nodes/Arweave/transport/arweaveClient';
+
+describe('GraphQL Pagination', () => {
+  let httpRequest: jest.Mock;
+  let context: any;
+
+  // Serves 5 transactions, newest first, honouring first and after
+  const serveTransactions = ({ body }: { body: { variables: Record<string, unknown> } }) => {
+    const { first, after } = body.variables as { first: number; after?: string };
+    const heights = [5, 4, 3, 2, 1];
+    const start = after ? heights.indexOf(Number(after.slice(1))) + 1 : 0;
+    const page = heights.slice(start, start + first);
+    return Promise.resolve({
+      data: {
+        transactions: {
+          pageInfo: { hasNextPage: start + first < heights.length },
+          edges: page.map((height) => ({
+            cursor: `c${height}`,
+            node: { id: `tx${height}`, block: { height } },
+          })),
+        },
+      },
+    });
+  };
+
+  const collect = async (
+    variables: Record<string, unknown>,
+    options: Parameters<typeof paginateTransactions>[2],
+  ) => {
+    const ids: string[] = [];
+    for await (const edge of paginateTransactions(context, variables, options)) {
+      ids.push(edge.node.id);
+    }
+    return ids;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    httpRequest = jest.fn().mockImplementation(serveTransactions);
+    context = {
+      getCredentials: jest
+        .fn()
+        .mockResolvedValue({ baseUrl: 'https://arweave.net', graphqlDialect: 'arweave' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+      helpers: { httpRequest },
+    };
+  });
+
+  it('should follow cursors until the last page', async () => {
+    expect(await collect({}, { pageSize: 2 })).toEqual(['tx5', 'tx4', 'tx3', 'tx2', 'tx1']);
+    expect(httpRequest.mock.calls.map(([options]) => options.body.variables.after)).toEqual([
+      undefined,
+      'c4',
+      'c2',
+    ]);
+  });
+
+  it('should stop at the max results and only request what is still needed', async () => {
+    expect(await collect({ after: 'c5' }, { pageSize: 2, maxResults: 3 })).toEqual([
+      'tx4',
+      'tx3',
+      'tx2',
+    ]);
+    expect(httpRequest.mock.calls.map(([options]) => options.body.variables.first)).toEqual([2, 1]);
+  });
+
+  it('should cap the page size at what gateways serve', async () => {
+    await collect({}, { pageSize: 1000 });
+
+    expect(httpRequest.mock.calls[0][0].body.variables.first).toBe(100);
+  });
+
+  it('should output one item per transaction when returning all', async () => {
+    const params: Record<string, unknown> = {
+      operation: 'queryByBlock',
+      returnAll: true,
+      pageSize: 2,
+      pageDelay: 0,
+      minBlock: 1,
+    };
+    context.getNodeParameter = (name: string, _index: number, fallback?: unknown) =>
+      params[name] ?? fallback;
+
+    const items = await executeGraphqlOperation.call(context, 0);
+
+    expect(items).toHaveLength(5);
+    expect(items[0]).toEqual({
+      json: { id: 'tx5', block: { height: 5 }, cursor: 'c5' },
+      pairedItem: { item: 0 },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash, generateKeyPairSync } from 'crypto';
+import {
+  createTransaction,
+  getSignatureData,
+  signTransaction,
+  verifyTransactionSignature,
+} from '../../nodes/Arweave/utils/transaction';
+import { computeDataRoot } from '../../nodes/Arweave/utils/merkle';
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  decodeTags,
+  encodeTags,
+  signMessage,
+  verifySignature,
+} from '../../nodes/Arweave/utils/helpers';
+import type { ArweaveJWK } from '../../nodes/Arweave/types';
+
+describe('Arweave Transactions', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048, publicExponent: 65537 });
+  const jwk = privateKey.export({ format: 'jwk' }) as ArweaveJWK;
+  const anchor = bufferToBase64Url(Buffer.alloc(32, 1));
+
+  describe('Data root', () => {
+    it('should be empty for empty data', () => {
+      expect(computeDataRoot(Buffer.alloc(0))).toHaveLength(0);
+    });
+
+    it('should be a 32-byte hash that depends on the data', () => {
+      const root = computeDataRoot(Buffer.from('Hello World'));
+      expect(root).toHaveLength(32);
+      expect(root.equals(computeDataRoot(Buffer.from('Hello World!')))).toBe(false);
+    });
+  });
+
+  describe('Signing', () => {
+    it('should create a format 2 transaction with encoded fields', () => {
+      const tx = createTransaction(jwk, {
+        data: Buffer.from('Hello World'),
+        tags: [{ name: 'Content-Type', value: 'text/plain' }],
+        reward: '1000',
+        lastTx: anchor,
+      });
+
+      expect(tx.format).toBe(2);
+      expect(tx.owner).toBe(jwk.n);
+      expect(tx.quantity).toBe('0');
+      expect(tx.data_size).toBe('11');
+      expect(decodeTags(tx.tags)).toEqual([{ name: 'Content-Type', value: 'text/plain' }]);
+    });
+
+    it('should sign the deep hash and derive the ID from the signature', async () => {
+      const tx = await signTransaction(
+        jwk,
+        createTransaction(jwk, {
+          data: Buffer.from('Hello World'),
+          tags: [],
+          reward: '1000',
+          lastTx: anchor,
+        }),
+      );
+
+      const expectedId = bufferToBase64Url(
+        createHash('sha256').update(base64UrlToBuffer(tx.signature)).digest(),
+      );
+      expect(tx.id).toBe(expectedId);
+      expect(await verifySignature(getSignatureData(tx), tx.signature, tx.owner)).toBe(true);
+      expect(
+        await verifySignature(getSignatureData({ ...tx, reward: '1' }), tx.signature, tx.owner),
+      ).toBe(false);
+    });
+  });
+
+  describe('Verification', () => {
+    it('should verify a signed transaction and reject altered fields', async () => {
+      const tx = await signTransaction(
+        jwk,
+        createTransaction(jwk, {
+          data: Buffer.from('Hello World'),
+          tags: [],
+          reward: '1000',
+          lastTx: anchor,
+        }),
+      );
+
+      expect(await verifyTransactionSignature(tx)).toBe(true);
+      expect(await verifyTransactionSignature({ ...tx, reward: '1' })).toBe(false);
+      expect(await verifyTransactionSignature({ ...tx, signature: '' })).toBe(false);
+    });
+
+    it('should verify format 1 transactions over the concatenated fields', async () => {
+      const tx = {
+        ...createTransaction(jwk, {
+          data: Buffer.from('Hello World'),
+          tags: [],
+          reward: '1000',
+          lastTx: anchor,
+        }),
+        format: 1,
+        tags: encodeTags([{ name: 'App', value: 'n8n' }]),
+      };
+      const signature = await signMessage(
+        jwk,
+        Buffer.concat([
+          base64UrlToBuffer(tx.owner),
+          Buffer.from('Hello World'),
+          Buffer.from('0'),
+          Buffer.from('1000'),
+          base64UrlToBuffer(anchor),
+          Buffer.from('App'),
+          Buffer.from('n8n'),
+        ]),
+      );
+
+      expect(await verifyTransactionSignature({ ...tx, signature })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getRawData, getTransaction } from '../../nodes/Arweave/transport/arweaveClient';
+import {
+  readCacheEntry,
+  setTransactionCache,
+  writeCacheEntry,
+} from '../../nodes/Arweave/transport/transactionCache';
+import { createTransaction, signTransaction } from '../../nodes/Arweave/utils/transaction';
+import type { ArweaveJWK, ArweaveTransaction } from '../../nodes/Arweave/types';
+
+describe('Transaction Cache', () => {
+  const txId = (char: string) => char.repeat(43);
+  let directory: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    directory = mkdtempSync(join(tmpdir(), 'arweave-cache-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('entries', () => {
+    it('should evict the least recently used entries beyond the size cap', async () => {
+      const options = { directory, maxBytes: 10, minConfirmations: 1 };
+      await writeCacheEntry(options, txId('a'), 'data', Buffer.alloc(4));
+      await writeCacheEntry(options, txId('b'), 'data', Buffer.alloc(4));
+      // Make a the oldest, then read it so b becomes the least recently used
+      const past = new Date(Date.now() - 60000);
+      utimesSync(join(directory, `${txId('a')}.data`), past, past);
+      utimesSync(join(directory, `${txId('b')}.data`), past, new Date(past.getTime() + 1000));
+      await readCacheEntry(options, txId('a'), 'data');
+
+      await writeCacheEntry(options, txId('c'), 'data', Buffer.alloc(4));
+
+      expect(readdirSync(directory).sort()).toEqual([`${txId('a')}.data`, `${txId('c')}.data`]);
+    });
+
+    it('should ignore malformed IDs and leave foreign files alone', async () => {
+      const options = { directory, maxBytes: 1, minConfirmations: 1 };
+      writeFileSync(join(directory, 'notes.txt'), 'keep me');
+
+      await writeCacheEntry(options, '../escape', 'data', Buffer.alloc(1));
+      await writeCacheEntry(options, txId('a'), 'data', Buffer.alloc(1));
+
+      expect(readdirSync(directory).sort()).toEqual([`${txId('a')}.data`, 'notes.txt']);
+      expect(await readCacheEntry(options, '../escape', 'data')).toBeUndefined();
+    });
+
+    it('should create the cache directory for the n8n user only', async () => {
+      const options = { directory: join(directory, 'cache'), maxBytes: 10, minConfirmations: 1 };
+
+      await writeCacheEntry(options, txId('a'), 'data', Buffer.alloc(1));
+
+      expect(statSync(options.directory).mode & 0o777).toBe(0o700);
+    });
+
+    it('should remove the temporary file when an entry cannot be stored', async () => {
+      const options = { directory, maxBytes: 10, minConfirmations: 1 };
+      mkdirSync(join(directory, `${txId('a')}.data`, 'blocked'), { recursive: true });
+
+      await writeCacheEntry(options, txId('a'), 'data', Buffer.alloc(1));
+
+      expect(readdirSync(directory)).toEqual([`${txId('a')}.data`]);
+    });
+  });
+
+  describe('read-through', () => {
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicExponent: 65537,
+    });
+    const jwk = privateKey.export({ format: 'jwk' }) as ArweaveJWK;
+    const data = Buffer.from('Hello World');
+    let transaction: ArweaveTransaction;
+    let served: Buffer;
+
+    beforeAll(async () => {
+      transaction = await signTransaction(
+        jwk,
+        createTransaction(jwk, {
+          data,
+          tags: [{ name: 'Type', value: 'manifest' }],
+          reward: '1000',
+          lastTx: 'A'.repeat(43),
+        }),
+      );
+    });
+
+    beforeEach(() => {
+      served = data;
+    });
+
+    const createContext = (confirmations: number) => {
+      const httpRequest = jest.fn().mockImplementation(async ({ url }: { url: string }) => {
+        if (url.endsWith('/status')) {
+          return { block_height: 1, block_indep_hash: 'x', number_of_confirmations: confirmations };
+        }
+        if (url.includes('/tx/')) {
+          return transaction;
+        }
+        return served;
+      });
+      const context: any = {
+        getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://arweave.net' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+        helpers: { httpRequest },
+      };
+      setTransactionCache(context, { directory, minConfirmations: 10 });
+      return { context, httpRequest };
+    };
+
+    it('should serve confirmed transactions from disk after the first read', async () => {
+      const { context, httpRequest } = createContext(50);
+
+      const first = await getTransaction(context, transaction.id);
+      expect((await getRawData(context, transaction.id)).toString()).toBe('Hello World');
+      httpRequest.mockClear();
+
+      expect(await getTransaction(context, transaction.id)).toEqual(first);
+      expect((await getRawData(context, transaction.id)).toString()).toBe('Hello World');
+      expect(httpRequest).not.toHaveBeenCalled();
+    });
+
+    it('should not cache transactions without enough confirmations', async () => {
+      const { context, httpRequest } = createContext(3);
+
+      await getTransaction(context, transaction.id);
+      httpRequest.mockClear();
+      await getTransaction(context, transaction.id);
+
+      expect(httpRequest.mock.calls.map(([options]) => options.url)).toContain(
+        `https://arweave.net/tx/${transaction.id}`,
+      );
+      expect(readdirSync(directory)).toEqual([]);
+    });
+
+    it('should neither store nor serve entries that do not match the signed header', async () => {
+      const { context, httpRequest } = createContext(50);
+      served = Buffer.from('<html>Manifest index</html>');
+      writeFileSync(
+        join(directory, `${transaction.id}.header`),
+        JSON.stringify({ ...transaction, tags: [] }),
+      );
+
+      expect(await getTransaction(context, transaction.id)).toEqual(transaction);
+      await getRawData(context, transaction.id);
+      httpRequest.mockClear();
+      await getRawData(context, transaction.id);
+
+      expect(httpRequest.mock.calls.map(([options]) => options.url)).toContain(
+        `https://arweave.net/${transaction.id}`,
+      );
+      expect(readdirSync(directory)).toEqual([`${transaction.id}.header`]);
+    });
+  });
+});
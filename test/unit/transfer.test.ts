@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import { executeWalletOperation } from '../../nodes/Arweave/actions/wallet';
+
+describe('Wallet Transfers', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048, publicExponent: 65537 });
+  const walletJwk = JSON.stringify(privateKey.export({ format: 'jwk' }));
+  const recipients = ['A'.repeat(43), 'B'.repeat(43)];
+  let balance: string;
+  let httpRequest: jest.Mock;
+  let params: Record<string, unknown>[];
+  let context: any;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    balance = '10000000000000';
+    httpRequest = jest.fn().mockImplementation(async (options: { url: string }) => {
+      if (options.url.endsWith('/tx_anchor')) return 'C'.repeat(43);
+      if (options.url.includes('/price/')) return '1000';
+      if (options.url.endsWith('/balance')) return balance;
+      return 'OK';
+    });
+    params = recipients.map((recipient) => ({
+      operation: 'transfer',
+      recipient,
+      amount: '1.5',
+      amountUnit: 'ar',
+      batchMode: true,
+    }));
+    context = {
+      getCredentials: jest.fn().mockResolvedValue({ walletJwk }),
+      getNode: jest.fn().mockReturnValue({ name: 'Arweave' }),
+      getInputData: jest.fn(() => params.map(() => ({ json: {} }))),
+      getNodeParameter: jest.fn(
+        (name: string, index: number, fallback?: unknown) => params[index][name] ?? fallback,
+      ),
+      helpers: { httpRequest },
+    };
+  });
+
+  const posted = () =>
+    httpRequest.mock.calls.filter(([options]) => options.url.endsWith('/tx')).map(([o]) => o.body);
+
+  it('should sign a transfer with target, quantity and the quoted new-wallet fee', async () => {
+    params[0].batchMode = false;
+    const [result] = await executeWalletOperation.call(context, 0);
+
+    const [transaction] = posted();
+    expect(transaction.target).toBe(recipients[0]);
+    expect(transaction.quantity).toBe('1500000000000');
+    expect(transaction.reward).toBe('1000');
+    expect(transaction.data_size).toBe('0');
+    expect(result.json).toMatchObject({ success: true, id: transaction.id, to: recipients[0] });
+    expect(httpRequest.mock.calls.map(([o]) => o.url)).toContain(
+      `https://arweave.net/price/0/${recipients[0]}`,
+    );
+  });
+
+  it('should pay every recipient once with a shared anchor in batch mode', async () => {
+    const results = await executeWalletOperation.call(context, 0);
+    const later = await executeWalletOperation.call(context, 1);
+
+    expect(later).toHaveLength(0);
+    expect(results.map((r) => r.json.to)).toEqual(recipients);
+    expect(posted().map((tx) => tx.target)).toEqual(recipients);
+    expect(new Set(posted().map((tx) => tx.last_tx))).toEqual(new Set(['C'.repeat(43)]));
+  });
+
+  it('should refuse the whole batch when the balance cannot cover amounts and fees', async () => {
+    balance = '3000000001999';
+
+    await expect(executeWalletOperation.call(context, 0)).rejects.toThrow(
+      'Insufficient wallet balance',
+    );
+    expect(posted()).toHaveLength(0);
+  });
+
+  it('should report failed recipients and continue the batch', async () => {
+    httpRequest.mockImplementation(async (options: { url: string; body?: { target: string } }) => {
+      if (options.url.endsWith('/tx_anchor')) return 'C'.repeat(43);
+      if (options.url.includes('/price/')) return '1000';
+      if (options.url.endsWith('/balance')) return balance;
+      if (options.body?.target === recipients[0]) throw new Error('Gateway rejected');
+      return 'OK';
+    });
+
+    const results = await executeWalletOperation.call(context, 0);
+
+    expect(results.map((r) => r.json.success)).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,350 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ArweaveTrigger } from '../../nodes/Arweave/ArweaveTrigger.node';
+import { releaseConfirmed, selectUnseen } from '../../nodes/Arweave/utils/trigger';
+import type { GraphQLEdge, HeldTransaction } from '../../nodes/Arweave/types';
+
+describe('Arweave Trigger', () => {
+  const trigger = new ArweaveTrigger();
+  const txId = (char: string) => char.repeat(43);
+  let staticData: Record<string, unknown>;
+  let globalData: Record<string, unknown>;
+  let network: {
+    height: number;
+    blocks: Record<string, number | null>;
+    forks: Record<number, string>;
+    statuses: Record<string, number | 'Pending'>;
+  };
+  let httpRequest: jest.Mock;
+
+  // Serves /info, block headers and GraphQL from the network state
+  const serveNetwork = async ({ url, body }: { url: string; body?: any }) => {
+    const statusMatch = url.match(/\/tx\/([\w-]{43})\/status$/);
+    if (statusMatch) {
+      const status = network.statuses[statusMatch[1]];
+      if (status === undefined) {
+        throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+      }
+      return status === 'Pending'
+        ? status
+        : { block_height: 90, block_indep_hash: 'hash90', number_of_confirmations: status };
+    }
+    if (url.endsWith('/info')) {
+      return { height: network.height, current: 'tip' };
+    }
+    if (url.includes('/block/')) {
+      const height = Number(url.split('/').pop());
+      const hash = (h: number) => network.forks[h] ?? `hash${h}`;
+      return {
+        height,
+        indep_hash: hash(height),
+        previous_block: hash(height - 1),
+        timestamp: 1700000000 + height,
+        txs: [],
+      };
+    }
+    const { ids, first, after } = body.variables;
+    // Newest first, pending transactions ahead of mined ones
+    const newest = Object.keys(network.blocks).sort(
+      (a, b) =>
+        (network.blocks[b] ?? Number.MAX_SAFE_INTEGER) -
+        (network.blocks[a] ?? Number.MAX_SAFE_INTEGER),
+    );
+    const start = after ? newest.indexOf(after) + 1 : 0;
+    const page: string[] = ids
+      ? ids.filter((id: string) => id in network.blocks)
+      : newest.slice(start, start + first);
+    return {
+      data: {
+        transactions: {
+          pageInfo: { hasNextPage: !ids && start + first < newest.length },
+          edges: page.map((id) => ({
+            cursor: id,
+            node: {
+              id,
+              owner: { address: 'owner' },
+              block:
+                network.blocks[id] === null
+                  ? null
+                  : { height: network.blocks[id], timestamp: 1700000000 },
+              tags: [],
+              data: { size: '1' },
+            },
+          })),
+        },
+      },
+    };
+  };
+
+  const poll = (params: Record<string, unknown>) => {
+    const context: any = {
+      getCredentials: jest.fn().mockResolvedValue({ baseUrl: 'https://arweave.net' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Arweave Trigger' }),
+      getNodeParameter: (name: string, fallback?: unknown) => params[name] ?? fallback,
+      getWorkflowStaticData: (type: string) => (type === 'global' ? globalData : staticData),
+      helpers: { httpRequest },
+    };
+    return trigger.poll.call(context);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    staticData = {};
+    globalData = {};
+    network = { height: 100, blocks: {}, forks: {}, statuses: {} };
+    httpRequest = jest.fn().mockImplementation(serveNetwork);
+  });
+
+  describe('confirmation depth', () => {
+    it('should release held transactions once deep enough and report stale pending ones', () => {
+      const held: Record<string, HeldTransaction> = {
+        deep: { item: { id: 'deep', block: { height: 98 } }, seenAt: 97 },
+        shallow: { item: { id: 'shallow', block: { height: 99 } }, seenAt: 97 },
+        pending: { item: { id: 'pending', block: null }, seenAt: 90 },
+        dropped: { item: { id: 'dropped', block: null }, seenAt: 40 },
+      };
+
+      expect(releaseConfirmed(held, 100, 3)).toEqual({
+        released: [{ id: 'deep', block: { height: 98 } }],
+        dropped: [{ event: 'dropped', id: 'dropped', blocksWaited: 60 }],
+      });
+      expect(Object.keys(held)).toEqual(['shallow', 'pending']);
+    });
+
+    it('should hold transactions in static data and emit them once', async () => {
+      const params = {
+        triggerType: 'newTransactionByTag',
+        tags: { tagValues: [{ name: 'App-Name', values: 'Test' }] },
+        minConfirmations: 3,
+      };
+      network.blocks[txId('a')] = null;
+
+      expect(await poll(params)).toBeNull();
+      expect(Object.keys(staticData.heldTransactions as object)).toEqual([txId('a')]);
+
+      network.blocks[txId('a')] = 100;
+      network.height = 101;
+      expect(await poll(params)).toBeNull();
+
+      network.height = 102;
+      const [items] = (await poll(params)) ?? [[]];
+      expect(items.map((item) => item.json.id)).toEqual([txId('a')]);
+      expect(items[0].json.block).toEqual({ height: 100, timestamp: 1700000000 });
+
+      network.height = 110;
+      expect(await poll(params)).toBeNull();
+      expect(staticData.heldTransactions).toEqual({});
+    });
+
+    it('should report held transactions that were never mined as dropped', async () => {
+      const params = {
+        triggerType: 'newTransactionByTag',
+        tags: { tagValues: [{ name: 'App-Name', values: 'Test' }] },
+        minConfirmations: 3,
+      };
+      network.blocks[txId('a')] = null;
+
+      expect(await poll(params)).toBeNull();
+      expect(staticData.seenIds ?? []).not.toContain(txId('a'));
+
+      network.height = 151;
+      const [items] = (await poll(params)) ?? [[]];
+      expect(items.map((item) => item.json)).toEqual([
+        expect.objectContaining({ event: 'dropped', id: txId('a'), blocksWaited: 51 }),
+      ]);
+      expect(staticData.heldTransactions).toEqual({});
+    });
+
+    it('should only report blocks with enough confirmations', async () => {
+      staticData.lastHeight = 100;
+      network.height = 105;
+
+      const [items] = (await poll({
+        triggerType: 'blockMined',
+        minConfirmations: 3,
+        limit: 10,
+      })) ?? [[]];
+
+      expect(items.map((item) => item.json.height)).toEqual([101, 102, 103]);
+      expect(staticData.lastHeight).toBe(103);
+    });
+  });
+
+  describe('chain reorganisation', () => {
+    const remember = (...heights: number[]) => {
+      staticData.lastHeight = heights[heights.length - 1];
+      staticData.recentBlocks = heights.map((height) => ({ height, hash: `hash${height}` }));
+    };
+
+    it('should emit orphaned blocks before their replacements and the new blocks', async () => {
+      remember(100, 101, 102);
+      network.forks = { 101: 'fork101', 102: 'fork102' };
+      network.height = 103;
+
+      const [items] = (await poll({ triggerType: 'blockMined', limit: 10 })) ?? [[]];
+
+      expect(items.map(({ json }) => [json.event, json.height, json.hash])).toEqual([
+        ['blockOrphaned', 101, 'hash101'],
+        ['blockOrphaned', 102, 'hash102'],
+        ['blockMined', 101, 'fork101'],
+        ['blockMined', 102, 'fork102'],
+        ['blockMined', 103, 'hash103'],
+      ]);
+      expect(items[0].json.replacedBy).toBe('fork101');
+      expect(staticData.recentBlocks).toEqual([
+        { height: 100, hash: 'hash100' },
+        { height: 101, hash: 'fork101' },
+        { height: 102, hash: 'fork102' },
+        { height: 103, hash: 'hash103' },
+      ]);
+    });
+
+    it('should detect a replaced tip when no new block was mined', async () => {
+      remember(99, 100);
+      network.forks = { 100: 'fork100' };
+
+      const [items] = (await poll({ triggerType: 'blockMined', limit: 10 })) ?? [[]];
+
+      expect(items.map(({ json }) => json.event)).toEqual(['blockOrphaned', 'blockMined']);
+      expect(staticData.lastHeight).toBe(100);
+    });
+
+    it('should stay quiet while the chain links up', async () => {
+      remember(99, 100);
+
+      expect(await poll({ triggerType: 'blockMined', limit: 10 })).toBeNull();
+    });
+  });
+
+  describe('deduplication', () => {
+    const byTag = {
+      triggerType: 'newTransactionByTag',
+      tags: { tagValues: [{ name: 'App-Name', values: 'Test' }] },
+    };
+    const emittedIds = async (params: Record<string, unknown>) => {
+      const output = await poll(params);
+      return output ? output[0].map((item) => item.json.id as string) : [];
+    };
+
+    it('should skip seen transactions and stop at the floor', () => {
+      const edge = (id: string, height?: number) =>
+        ({ cursor: id, node: { id, block: height ? { height } : null } }) as GraphQLEdge;
+
+      expect(
+        selectUnseen(
+          [edge('p'), edge('a', 120), edge('b', 115), edge('c', 90)],
+          new Set(['a']),
+          100,
+        ),
+      ).toEqual({ unseen: [edge('p'), edge('b', 115)], reachedFloor: true });
+    });
+
+    it('should not emit a pending transaction again once it is mined', async () => {
+      network.blocks = { [txId('p')]: null, [txId('a')]: 100 };
+      expect(await emittedIds(byTag)).toEqual([txId('p'), txId('a')]);
+      expect(staticData.watermark).toBe(100);
+
+      network.blocks[txId('p')] = 101;
+      network.blocks[txId('b')] = 101;
+      expect(await emittedIds(byTag)).toEqual([txId('b')]);
+      expect(staticData.watermark).toBe(101);
+    });
+
+    it('should page beyond the limit down to the watermark', async () => {
+      for (let height = 95; height <= 106; height++) {
+        network.blocks[txId(String.fromCharCode(70 + height - 95))] = height;
+      }
+      staticData.watermark = 100;
+      staticData.seenIds = Object.keys(network.blocks).filter((id) => network.blocks[id]! <= 100);
+
+      const ids = await emittedIds({ ...byTag, limit: 2 });
+
+      expect(ids.map((id) => network.blocks[id])).toEqual([106, 105, 104, 103, 102, 101]);
+      expect(httpRequest.mock.calls.map(([options]) => options.body.variables.after)).toEqual([
+        undefined,
+        txId('P'),
+        txId('N'),
+        txId('L'),
+        txId('J'),
+        txId('H'),
+      ]);
+    });
+
+    it('should stop at the last ID of triggers saved before the watermark', async () => {
+      network.blocks = { [txId('a')]: 100, [txId('b')]: 99, [txId('c')]: 98 };
+      staticData.lastProcessedId = txId('b');
+
+      expect(await emittedIds(byTag)).toEqual([txId('a')]);
+      expect(staticData).not.toHaveProperty('lastProcessedId');
+    });
+  });
+
+  describe('watch list', () => {
+    const watch = (params: Record<string, unknown>) =>
+      poll({
+        triggerType: 'transactionStatus',
+        minConfirmations: 3,
+        dropAfterBlocks: 2,
+        ...params,
+      });
+    const events = (output: Awaited<ReturnType<typeof poll>>) =>
+      output ? output[0].map(({ json }) => [json.event, json.id]) : [];
+
+    it('should emit confirmed and dropped transactions once', async () => {
+      const params = { transactionIds: [txId('a'), txId('b'), txId('c'), txId('d')].join(', ') };
+      network.statuses = { [txId('a')]: 5, [txId('b')]: 'Pending', [txId('d')]: 1 };
+
+      expect(events(await watch(params))).toEqual([['confirmed', txId('a')]]);
+      // Unknown transactions answer 404, which is final rather than retried
+      expect(httpRequest).toHaveBeenCalledTimes(5);
+
+      network.height = 102;
+      network.statuses[txId('d')] = 3;
+      expect(events(await watch(params))).toEqual([
+        ['dropped', txId('c')],
+        ['confirmed', txId('d')],
+      ]);
+
+      httpRequest.mockClear();
+      expect(await watch(params)).toBeNull();
+      expect(httpRequest.mock.calls.map(([options]) => options.url)).toEqual([
+        'https://arweave.net/info',
+        `https://arweave.net/tx/${txId('b')}/status`,
+      ]);
+    });
+
+    it('should remove resolved IDs from the workflow static data', async () => {
+      globalData.arweaveWatchList = [txId('a'), txId('b')];
+      network.statuses = { [txId('a')]: 50, [txId('b')]: 'Pending' };
+
+      const output = await watch({ watchSource: 'staticData' });
+
+      expect(output?.[0][0].json).toMatchObject({
+        event: 'confirmed',
+        id: txId('a'),
+        blockHeight: 90,
+        confirmations: 50,
+      });
+      expect(globalData.arweaveWatchList).toEqual([txId('b')]);
+    });
+
+    it('should drop malformed static data IDs but reject malformed listed IDs', async () => {
+      globalData.arweaveWatchList = ['not-an-id', txId('b')];
+      network.statuses = { [txId('b')]: 'Pending' };
+
+      expect(events(await watch({ watchSource: 'staticData' }))).toEqual([
+        ['invalid', 'not-an-id'],
+      ]);
+      expect(globalData.arweaveWatchList).toEqual([txId('b')]);
+
+      await expect(watch({ transactionIds: `not-an-id, ${txId('b')}` })).rejects.toThrow(
+        'Invalid transaction ID: not-an-id',
+      );
+    });
+  });
+});